@@ -0,0 +1,265 @@
+// 本机 HTTP 控制接口：供编辑器插件、脚本、Stream Deck 等控制计时，只监听 127.0.0.1，需携带令牌
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { randomBytes, timingSafeEqual } from 'crypto'
+import settings from './store/settings'
+import historyStore from './store/history'
+import { validateSettings } from './store/validateSettings'
+import Scheduler, { PhaseInfo } from './tasks/scheduler'
+import { getOffHours } from './tasks/workHours'
+
+const HOST = '127.0.0.1'
+// 请求体大小上限（字节）
+const MAX_BODY = 16 * 1024
+// 读取历史记录默认 / 最多返回多少条
+const HISTORY_LIMIT = 50
+const HISTORY_MAX = 1000
+// SSE 心跳间隔（毫秒），暂停时没有 tick，靠心跳保持连接
+const HEARTBEAT_INTERVAL = 30 * 1000
+
+export interface ApiStatus {
+  running: boolean
+  port: number
+  error: string | null
+}
+
+interface Request {
+  query: URLSearchParams
+  body: Record<string, unknown>
+}
+
+// 处理函数返回响应内容，请求不合法或当前无法执行时抛出 ApiError
+type Handler = (req: Request) => unknown
+
+class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+let server: Server | null = null
+let status: ApiStatus = { running: false, port: 0, error: null }
+const clients = new Set<ServerResponse>()
+
+const phase = (): PhaseInfo => Scheduler.getPhase()
+
+function positiveInteger(value: unknown, name: string, fallback?: number): number {
+  if (value === undefined && fallback !== undefined) return fallback
+  const number = typeof value === 'string' ? Number(value) : value
+  if (!Number.isInteger(number) || (number as number) <= 0) {
+    throw new ApiError(400, `${name} must be a positive integer`)
+  }
+  return number as number
+}
+
+// 与 tasks() 中的 IPC 调用同一组 Scheduler 方法
+const routes: Record<string, Handler> = {
+  'GET /api/status': () => ({ ...phase(), offHours: getOffHours() }),
+  'POST /api/start': () => {
+    Scheduler.resume()
+    return phase()
+  },
+  'POST /api/pause': () => {
+    if (Scheduler.isBreakLocked()) throw new ApiError(409, 'break cannot be paused now')
+    Scheduler.pause()
+    return phase()
+  },
+  'POST /api/reset': () => {
+    if (Scheduler.isBreakLocked()) throw new ApiError(409, 'break cannot be reset now')
+    Scheduler.resetCountdown()
+    return phase()
+  },
+  'POST /api/duration': ({ body }) => {
+    const seconds = positiveInteger(body.minutes, 'minutes') * 60
+    if (validateSettings({ workDuration: seconds })) {
+      throw new ApiError(400, 'minutes is out of range')
+    }
+    Scheduler.setDuration(seconds)
+    return phase()
+  },
+  'POST /api/break': () => {
+    Scheduler.startBreak('api')
+    return phase()
+  },
+  'POST /api/break/skip': () => {
+    if (!Scheduler.canSkipBreak()) throw new ApiError(409, 'break cannot be skipped now')
+    Scheduler.skipBreak('api')
+    return phase()
+  },
+  'POST /api/break/postpone': ({ body }) => {
+    const minutes = positiveInteger(body.minutes, 'minutes', 5)
+    if (!Scheduler.canPostpone()) throw new ApiError(409, 'break cannot be postponed now')
+    Scheduler.postpone(minutes * 60)
+    return phase()
+  },
+  'GET /api/history': ({ query }) => {
+    const limit = Math.min(
+      positiveInteger(query.get('limit') ?? undefined, 'limit', HISTORY_LIMIT),
+      HISTORY_MAX
+    )
+    const from = query.has('from') ? Number(query.get('from')) : undefined
+    const to = query.has('to') ? Number(query.get('to')) : undefined
+    if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+      throw new ApiError(400, 'from and to must be timestamps in milliseconds')
+    }
+    return historyStore.query(from, to).slice(-limit)
+  }
+}
+
+function send(res: ServerResponse, code: number, data: unknown): void {
+  res.writeHead(code, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(data))
+}
+
+// 令牌可放在 Authorization: Bearer 头中，EventSource 无法设置请求头，也可以用 ?token= 传递
+function authorized(req: IncomingMessage, query: URLSearchParams): boolean {
+  const token = settings.get('apiToken')
+  const header = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1]
+  const given = Buffer.from(header ?? query.get('token') ?? '')
+  const expected = Buffer.from(token)
+  return !!token && given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let data = ''
+    req.setEncoding('utf-8')
+    req.on('data', (chunk: string) => {
+      data += chunk
+      if (data.length > MAX_BODY) {
+        reject(new ApiError(413, 'request body is too large'))
+        req.destroy()
+      }
+    })
+    req.on('end', () => {
+      if (!data.trim()) return resolve({})
+      try {
+        const body = JSON.parse(data)
+        if (!body || typeof body !== 'object' || Array.isArray(body)) throw new Error()
+        resolve(body)
+      } catch {
+        reject(new ApiError(400, 'request body must be a JSON object'))
+      }
+    })
+    req.on('error', reject)
+  })
+}
+
+function writeEvent(res: ServerResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+function openStream(req: IncomingMessage, res: ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  })
+  writeEvent(res, 'state', phase())
+  clients.add(res)
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL)
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    clients.delete(res)
+  })
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  // 只接受以本机地址访问的请求，防止 DNS 重绑定后被网页调用
+  if (!/^(127\.0\.0\.1|localhost)(:\d+)?$/i.test(req.headers.host ?? '')) {
+    return send(res, 403, { error: 'forbidden host' })
+  }
+  const url = new URL(req.url ?? '/', `http://${HOST}`)
+  if (!authorized(req, url.searchParams)) {
+    return send(res, 401, { error: 'invalid or missing token' })
+  }
+  if (req.method === 'GET' && url.pathname === '/api/events') {
+    return openStream(req, res)
+  }
+  const handler = routes[`${req.method} ${url.pathname.replace(/\/+$/, '')}`]
+  if (!handler) {
+    return send(res, 404, { error: 'not found' })
+  }
+  try {
+    const body = req.method === 'POST' ? await readBody(req) : {}
+    send(res, 200, handler({ query: url.searchParams, body }))
+  } catch (error) {
+    if (error instanceof ApiError) {
+      send(res, error.status, { error: error.message })
+    } else {
+      console.error('[api] 处理请求失败:', error)
+      send(res, 500, { error: 'internal error' })
+    }
+  }
+}
+
+function stop(): void {
+  clients.forEach((res) => res.end())
+  clients.clear()
+  server?.close()
+  server?.closeAllConnections()
+  server = null
+  status = { running: false, port: 0, error: null }
+}
+
+function start(): void {
+  const port = settings.get('apiPort')
+  const instance = createServer((req, res) => {
+    handle(req, res)
+  })
+  server = instance
+  instance.on('error', (error) => {
+    console.error('[api] 启动本机接口失败:', error)
+    if (server === instance) {
+      server = null
+      status = { running: false, port, error: error.message }
+    }
+  })
+  instance.listen(port, HOST, () => {
+    status = { running: true, port, error: null }
+  })
+}
+
+// 按配置启动、重启或关闭服务
+function sync(): void {
+  stop()
+  if (settings.get('apiEnabled')) {
+    if (!settings.get('apiToken')) {
+      // 设置令牌会再次触发 change，届时再启动
+      regenerateApiToken()
+      return
+    }
+    start()
+  }
+}
+
+export function regenerateApiToken(): string {
+  const token = randomBytes(24).toString('hex')
+  settings.set({ apiToken: token })
+  return token
+}
+
+export function getApiStatus(): ApiStatus {
+  return status
+}
+
+export function watchApi(): void {
+  // 计时变化推送给所有 SSE 连接
+  Scheduler.on('tick', (info: PhaseInfo) => clients.forEach((res) => writeEvent(res, 'tick', info)))
+  Scheduler.on('state-change', (info: PhaseInfo) =>
+    clients.forEach((res) => writeEvent(res, 'state', info))
+  )
+  Scheduler.on('phase-change', (info: PhaseInfo) =>
+    clients.forEach((res) => writeEvent(res, 'phase', info))
+  )
+
+  sync()
+  settings.on('change', (_, patch) => {
+    if ('apiEnabled' in patch || 'apiPort' in patch || 'apiToken' in patch) {
+      sync()
+    }
+  })
+}
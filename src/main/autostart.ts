@@ -0,0 +1,67 @@
+// 开机自动启动：macOS / Windows 使用登录项，Linux 写入 XDG autostart 目录下的 .desktop 文件
+
+import { app } from 'electron'
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { homedir } from 'os'
+import { join, resolve } from 'path'
+import settings from './store/settings'
+
+function getAutostartFile(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config')
+  return join(configHome, 'autostart', 'ixiu.desktop')
+}
+
+// Exec 字段中含空格或保留字符的参数需加双引号，并转义 " ` $ \
+function quote(arg: string): string {
+  if (!/[\s"'`$\\<>~|&;*?#()]/.test(arg)) return arg
+  return `"${arg.replace(/(["`$\\])/g, '\\$1')}"`
+}
+
+// 启动命令：AppImage 运行时 execPath 指向临时挂载目录，需使用 APPIMAGE 提供的文件路径；
+// 开发环境下由 electron 可执行文件启动，需要带上入口脚本路径
+function getLaunchCommand(): string[] {
+  if (process.defaultApp && process.argv.length >= 2) {
+    return [process.execPath, resolve(process.argv[1])]
+  }
+  return [process.env.APPIMAGE || process.execPath]
+}
+
+function setLinuxAutostart(enabled: boolean): void {
+  const file = getAutostartFile()
+  if (!enabled) {
+    if (existsSync(file)) rmSync(file)
+    return
+  }
+  const entry = [
+    '[Desktop Entry]',
+    'Type=Application',
+    `Name=${app.getName()}`,
+    `Exec=${getLaunchCommand().map(quote).join(' ')}`,
+    'Terminal=false',
+    'X-GNOME-Autostart-enabled=true'
+  ]
+  mkdirSync(join(file, '..'), { recursive: true })
+  writeFileSync(file, entry.join('\n') + '\n', 'utf-8')
+}
+
+function setAutostart(enabled: boolean): void {
+  try {
+    if (process.platform === 'linux') {
+      setLinuxAutostart(enabled)
+    } else {
+      app.setLoginItemSettings({ openAtLogin: enabled })
+    }
+  } catch (error) {
+    console.error('[autostart] 设置开机启动失败:', error)
+  }
+}
+
+export function watchAutostart(): void {
+  // 启动时按配置同步一次，应用移动位置或更新后启动命令仍然有效
+  setAutostart(settings.get('launchAtLogin'))
+  settings.on('change', (data, patch) => {
+    if ('launchAtLogin' in patch) {
+      setAutostart(data.launchAtLogin)
+    }
+  })
+}
@@ -0,0 +1,182 @@
+// 外部控制：命令行参数（--break-now 等）与 ixiu:// 链接，都会转交给已运行的实例执行
+
+import { app } from 'electron'
+import { resolve } from 'path'
+import Scheduler, { isBreakPhase } from './tasks/scheduler'
+import { validateSettings } from './store/validateSettings'
+import { showStatusNotification } from './notification'
+import { showWindow } from './screen/HomeScreen'
+
+const PROTOCOL = 'ixiu'
+// 推迟休息未指定时长时的默认分钟数
+const DEFAULT_POSTPONE_MINUTES = 5
+
+export type CommandAction =
+  | 'break-now'
+  | 'pause'
+  | 'resume'
+  | 'reset'
+  | 'status'
+  | 'duration'
+  | 'postpone'
+  | 'skip'
+  | 'show'
+
+export interface Command {
+  action: CommandAction
+  minutes?: number
+  via: 'cli' | 'url'
+}
+
+const ACTIONS: CommandAction[] = [
+  'break-now',
+  'pause',
+  'resume',
+  'reset',
+  'status',
+  'duration',
+  'postpone',
+  'skip',
+  'show'
+]
+
+// 应用就绪前收到的命令先排队，就绪后依次执行
+let ready = false
+let pending: Command[] = []
+
+// 时长写法：25m、1h、90s，不带单位时按分钟；返回分钟数，不合法时返回 undefined
+function parseMinutes(value: string | null | undefined): number | undefined {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m|min|h)?$/i)
+  if (!match) return undefined
+  const amount = Number(match[1])
+  const unit = (match[2] ?? 'm').toLowerCase()
+  const minutes = unit === 'h' ? amount * 60 : unit === 's' ? amount / 60 : amount
+  return minutes > 0 ? minutes : undefined
+}
+
+// ixiu://postpone?minutes=10、ixiu://duration?minutes=25m、ixiu://break-now
+export function parseUrl(url: string): Command | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return null
+  }
+  if (parsed.protocol !== `${PROTOCOL}:`) return null
+  // 不同系统对 ixiu://pause 与 ixiu:pause 的解析不同，动作可能在 host 或 pathname 中
+  const action = (parsed.host || parsed.pathname.replace(/^\/+/, '')).replace(/\/+$/, '')
+  if (!ACTIONS.includes(action as CommandAction)) return null
+  const minutes = parseMinutes(parsed.searchParams.get('minutes'))
+  return { action: action as CommandAction, minutes, via: 'url' }
+}
+
+// --break-now、--pause、--duration=25m、--postpone=10m 等；其他参数（包括 Electron 自身的）忽略
+export function parseArgs(argv: string[]): Command[] {
+  const commands: Command[] = []
+  argv.forEach((arg) => {
+    if (arg.startsWith(`${PROTOCOL}:`)) {
+      const command = parseUrl(arg)
+      if (command) commands.push(command)
+      return
+    }
+    const match = arg.match(/^--([a-z-]+)(?:=(.*))?$/)
+    if (!match) return
+    const action = match[1] === 'skip-break' ? 'skip' : match[1]
+    if (!ACTIONS.includes(action as CommandAction)) return
+    commands.push({ action: action as CommandAction, minutes: parseMinutes(match[2]), via: 'cli' })
+  })
+  return commands
+}
+
+// 执行命令；严格模式、推迟次数等限制由 Scheduler 自行判断
+export function runCommand(command: Command): void {
+  if (!ready) {
+    pending.push(command)
+    return
+  }
+  const { action, minutes, via } = command
+  switch (action) {
+    case 'break-now':
+      Scheduler.startBreak(via)
+      break
+    case 'pause':
+      Scheduler.pause()
+      break
+    case 'resume':
+      Scheduler.resume()
+      break
+    case 'reset':
+      Scheduler.resetCountdown()
+      break
+    case 'status':
+      showStatusNotification()
+      break
+    case 'duration': {
+      const seconds = Math.round((minutes ?? 0) * 60)
+      if (validateSettings({ workDuration: seconds })) {
+        console.warn('[commands] 无效的工作时长:', minutes)
+        return
+      }
+      Scheduler.setDuration(seconds)
+      break
+    }
+    case 'postpone':
+      Scheduler.postpone(Math.round((minutes ?? DEFAULT_POSTPONE_MINUTES) * 60))
+      break
+    case 'skip':
+      // 休息中跳过本次休息，工作中则跳过下一次休息
+      if (isBreakPhase(Scheduler.getPhase().phase)) {
+        Scheduler.skipBreak(via)
+      } else {
+        Scheduler.setSkipNextBreak(true)
+      }
+      break
+    case 'show':
+      showWindow()
+      break
+  }
+}
+
+// 再次启动应用时：有命令就执行，没有就显示首页
+function handleArgs(argv: string[]): void {
+  const commands = parseArgs(argv)
+  if (!commands.length) {
+    if (ready) showWindow()
+    return
+  }
+  commands.forEach(runCommand)
+}
+
+// 需在 app ready 之前调用：macOS 在启动过程中就会通过 open-url 传入链接
+export function setupCommands(): void {
+  // 开发环境下由 electron 可执行文件启动，需要带上入口脚本路径
+  if (process.defaultApp) {
+    if (process.argv.length >= 2) {
+      app.setAsDefaultProtocolClient(PROTOCOL, process.execPath, [resolve(process.argv[1])])
+    }
+  } else {
+    app.setAsDefaultProtocolClient(PROTOCOL)
+  }
+
+  app.on('open-url', (event, url) => {
+    event.preventDefault()
+    const command = parseUrl(url)
+    if (command) runCommand(command)
+  })
+
+  // Chromium 可能改写第二个实例的 argv，优先使用通过 additionalData 原样传来的参数
+  app.on('second-instance', (_, argv, __, additionalData) => {
+    const data = additionalData as { argv?: unknown } | null
+    handleArgs(Array.isArray(data?.argv) ? data.argv : argv)
+  })
+
+  parseArgs(process.argv.slice(1)).forEach(runCommand)
+}
+
+// 计时恢复后调用，执行排队中的命令
+export function flushCommands(): void {
+  ready = true
+  const commands = pending
+  pending = []
+  commands.forEach(runCommand)
+}
@@ -0,0 +1,47 @@
+import { app } from 'electron'
+import i18next from 'i18next'
+import settings from './store/settings'
+import zh from '../renderer/public/locales/zh/translation.json'
+import en from '../renderer/public/locales/en/translation.json'
+import ja from '../renderer/public/locales/ja/translation.json'
+import ko from '../renderer/public/locales/ko/translation.json'
+
+// 主进程（托盘、通知等）与渲染进程共用同一份翻译文件
+const resources = {
+  zh: { translation: zh },
+  en: { translation: en },
+  ja: { translation: ja },
+  ko: { translation: ko }
+}
+
+// 配置未指定语言时跟随系统，例如 zh-CN → zh
+function resolveLanguage(): string {
+  const language = settings.get('language') || app.getLocale()
+  const short = language.split('-')[0]
+  return short in resources ? short : 'en'
+}
+
+const i18n = i18next.createInstance()
+i18n.init({
+  resources,
+  lng: 'en',
+  fallbackLng: 'en',
+  initAsync: false,
+  interpolation: {
+    escapeValue: false
+  }
+})
+
+// 需在 app ready 之后调用（app.getLocale 依赖 ready）
+export function setupI18n(): void {
+  i18n.changeLanguage(resolveLanguage())
+  settings.on('change', (_, patch) => {
+    if ('language' in patch) {
+      i18n.changeLanguage(resolveLanguage())
+    }
+  })
+}
+
+export const t = i18n.t.bind(i18n)
+
+export default i18n
@@ -1,49 +1,84 @@
-import { app, BrowserWindow, ipcMain, Tray } from 'electron'
+import { app, BrowserWindow, dialog, ipcMain, Tray, WebContents } from 'electron'
+import { readFileSync, writeFileSync } from 'fs'
+import { randomUUID } from 'crypto'
 import { electronApp, optimizer } from '@electron-toolkit/utils'
 import cloudTemplate from '../../resources/tray/cloudTemplate.png?asset'
 import { createHomescreen } from './screen/HomeScreen'
-import Scheduler from './tasks/scheduler'
-import { createFullscreen } from './screen/Fullscreen'
+import Scheduler, { isBreakPhase, Phase, PhaseInfo } from './tasks/scheduler'
+import { closeFullscreen, createFullscreen } from './screen/Fullscreen'
+import { watchPower } from './tasks/power'
+import { watchIdle } from './tasks/idle'
+import { watchWhitelist } from './tasks/whitelist'
+import { getCalendarStatus, reloadCalendars, watchCalendar } from './tasks/calendar'
+import { getReminders, watchReminders } from './tasks/reminders'
+import { getCurrentActivities, watchActivities } from './tasks/activities'
+import { getOffHours, watchWorkHours } from './tasks/workHours'
+import { setupI18n, t } from './i18n'
+import { buildTrayMenu } from './tray/menu'
+import { watchTrayStatus } from './tray/status'
+import { setupMenu } from './menu'
+import {
+  closeBreakWarning,
+  showBreakNotification,
+  showBreakWarning,
+  showReminder,
+  showUpdateReady
+} from './notification'
+import { previewSound, watchSounds } from './sound'
+import { getApiStatus, regenerateApiToken, watchApi } from './api'
+import { flushCommands, setupCommands } from './commands'
+import { watchAutostart } from './autostart'
+import { checkForUpdates, getUpdateStatus, installUpdate, watchUpdater } from './updater'
+import settingsStore, { Reminder, Settings, SettingsPatch, SoundCue } from './store/settings'
+import { SOUND_EXTENSIONS, validateSettings } from './store/validateSettings'
+import historyStore, { SessionRecord } from './store/history'
+import { getStats } from './store/stats'
+import {
+  exportHistory,
+  exportSettings,
+  HISTORY_FORMATS,
+  HistoryFormat,
+  parseSettingsBundle
+} from './store/transfer'
 export const windowsMap = new Map<number, BrowserWindow>()
 
+// 只允许运行一个实例：再次启动时把命令行参数交给已运行的实例处理，自身直接退出
+const isPrimaryInstance = app.requestSingleInstanceLock({ argv: process.argv })
+if (isPrimaryInstance) {
+  setupCommands()
+} else {
+  app.quit()
+}
+
 // Hide the dock icon on macOS
 app.dock.hide()
 
 export let tray: Tray | null = null
 function createTray(): void {
   tray = new Tray(cloudTemplate)
-  // 构建菜单
-  // const contextMenu = Menu.buildFromTemplate([
-  //   { label: 'uTools 官网', click: (): void => console.log('打开官网') },
-  //   { type: 'separator' }, // 分割线
-  //   {
-  //     label: '帮助',
-  //     submenu: [
-  //       { label: '隐私政策', click: (): void => console.log('查看隐私政策') },
-  //       { label: '用户协议', click: (): void => console.log('查看用户协议') }
-  //     ]
-  //   },
-  //   { type: 'separator' }, // 分割线
-  //   { label: '版本 (V6.0.0)', enabled: false }, // 灰色不可点击项
-  //   { label: '检测更新', click: (): void => console.log('检测更新') },
-  //   { type: 'separator' }, // 分割线
-  //   { label: '设置', click: (): void => console.log('打开设置') },
-  //   { label: '显示 / 隐藏', click: (): void => toggleWindow() },
-  //   { type: 'separator' }, // 分割线
-  //   {
-  //     label: '重启',
-  //     click: (): void => {
-  //       app.relaunch()
-  //       app.exit()
-  //     }
-  //   },
-  //   { label: '退出', click: (): void => app.quit() }
-  // ])
-  // 设置托盘图标的菜单
-  // tray.setContextMenu(contextMenu)
-
-  tray.setToolTip('「一咻」一眨眼就过去了🚀') // 鼠标悬浮提示文字
-  // tray.setTitle('This is my title') // 会导致tray 不显示
+
+  if (process.platform === 'linux') {
+    // Linux 托盘不支持 right-click 事件，只能预先设置菜单并在状态变化时刷新
+    const refresh = (): void => tray?.setContextMenu(buildTrayMenu())
+    refresh()
+    Scheduler.on('state-change', refresh)
+    Scheduler.on('phase-change', refresh)
+    // 严格模式下休息可以跳过时，同时恢复暂停、重置等菜单项
+    let locked = Scheduler.isBreakLocked()
+    Scheduler.on('tick', (info: PhaseInfo) => {
+      const changed = locked !== Scheduler.isBreakLocked()
+      locked = Scheduler.isBreakLocked()
+      if (changed || info.remainingTime % 60 === 0) refresh()
+    })
+  } else {
+    // 左键点击用于显示/隐藏首页，右键弹出菜单；每次弹出时按最新状态生成
+    tray.on('right-click', () => {
+      tray?.popUpContextMenu(buildTrayMenu())
+    })
+  }
+
+  // 图标、鼠标悬浮提示文字随计时状态更新
+  watchTrayStatus(tray)
 }
 
 export function getWindowPosition({ mainWindow }: { mainWindow: BrowserWindow }): {
@@ -90,10 +125,42 @@ export function rendererVisible({
   }
 }
 
+// 向所有窗口推送消息
+export function broadcast(channel: string, ...args: unknown[]): void {
+  windowsMap.forEach((win) => {
+    if (!win.isDestroyed()) {
+      win.webContents.send(channel, ...args)
+    }
+  })
+}
+
+// 以发起请求的窗口为父窗口弹出打开/保存文件对话框，返回选择的路径，用户取消时返回 null
+async function showFileDialog(
+  sender: WebContents,
+  type: 'open' | 'save',
+  options: Electron.OpenDialogOptions | Electron.SaveDialogOptions
+): Promise<string | null> {
+  const win = BrowserWindow.fromWebContents(sender)
+  if (type === 'save') {
+    const saveOptions = options as Electron.SaveDialogOptions
+    const { canceled, filePath } = win
+      ? await dialog.showSaveDialog(win, saveOptions)
+      : await dialog.showSaveDialog(saveOptions)
+    return canceled || !filePath ? null : filePath
+  }
+  const openOptions = options as Electron.OpenDialogOptions
+  const { canceled, filePaths } = win
+    ? await dialog.showOpenDialog(win, openOptions)
+    : await dialog.showOpenDialog(openOptions)
+  return canceled || !filePaths.length ? null : filePaths[0]
+}
+
 // This method will be called when Electron has finished
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
 app.whenReady().then(() => {
+  if (!isPrimaryInstance) return
+
   // Set app user model id for windows
   electronApp.setAppUserModelId('com.electron')
 
@@ -130,12 +197,37 @@ app.whenReady().then(() => {
   )
 
   ipcMain.handle('ping', () => 'pong')
+  ipcMain.handle('get-app-info', () => ({ name: app.getName(), version: app.getVersion() }))
   // IPC test
   // ipcMain.on('ping', () => console.log('pong'))
 
+  setupI18n()
+  setupMenu()
   createTray()
   createHomescreen()
+  settings()
+  stats()
+  transfer()
+  calendar()
+  reminders()
+  updates()
   tasks()
+  watchPower()
+  watchIdle()
+  watchWhitelist()
+  watchCalendar()
+  watchActivities((activities) => broadcast('break-activities', activities))
+  watchSounds()
+  watchReminders(showReminder)
+  watchApi()
+  watchAutostart()
+  watchUpdater((status) => {
+    broadcast('update-status', status)
+    if (status.state === 'downloaded') showUpdateReady(status.version ?? '')
+  })
+  watchWorkHours((info) => broadcast('off-hours-changed', info))
+  // 计时已恢复，执行启动参数或链接中的命令
+  flushCommands()
   app.on('activate', function () {
     // On macOS it's common to re-create a window in the app when the
     // dock icon is clicked and there are no other windows open.
@@ -155,22 +247,93 @@ app.on('window-all-closed', () => {
   }
 })
 
+// 退出前保存倒计时，下次启动时继续
+app.on('before-quit', () => {
+  // 未拿到单实例锁的进程不能覆盖正在运行的实例保存的进度
+  if (!isPrimaryInstance) return
+  Scheduler.persist()
+})
+
 // In this file you can include the rest of your app"s specific main process
 // code. You can also put them in separate files and require them here.
 
 function tasks(): void {
+  // 进入休息：温和模式只发通知，其余模式显示全屏遮罩
   const onFinish = (): void => {
-    createFullscreen()
+    if (settingsStore.get('enforcement') === 'gentle') {
+      showBreakNotification()
+    } else {
+      createFullscreen()
+    }
   }
 
-  // 自动启动倒计时
-  Scheduler.startCountdown(onFinish)
+  // 每秒推送剩余时间，各窗口以主进程时间为准
+  Scheduler.on('tick', (info: PhaseInfo) => {
+    broadcast('countdown-update', info.remainingTime, info)
+  })
+
+  // 计时状态变化
+  Scheduler.on('state-change', (info: PhaseInfo) => {
+    broadcast('countdown-state', info)
+  })
+
+  // 某个阶段倒计时结束
+  Scheduler.on('finish', (phase: Phase) => {
+    broadcast('countdown-finished', phase)
+  })
+
+  // 工作已结束但休息被暂缓（白名单应用在前台等）
+  Scheduler.on('break-deferred', (info: PhaseInfo) => {
+    broadcast('break-deferred', info)
+  })
+
+  // 即将休息：弹出系统通知，首页根据 tick 自行显示提醒
+  Scheduler.on('break-warning', (_: PhaseInfo, seconds: number) => {
+    showBreakWarning(seconds)
+  })
+
+  // 阶段切换：通知所有窗口，休息结束时收起全屏遮罩
+  Scheduler.on('phase-change', (info: PhaseInfo) => {
+    broadcast('phase-changed', info)
+    closeBreakWarning()
+    if (!isBreakPhase(info.phase)) {
+      closeFullscreen()
+    }
+  })
+
+  // 暴露方法：获取当前是否处于非工作时间
+  ipcMain.handle('get-off-hours', () => {
+    return getOffHours()
+  })
+
+  // 暴露方法：获取本次休息的活动
+  ipcMain.handle('get-break-activities', () => {
+    return getCurrentActivities()
+  })
+
+  // 自动启动倒计时（上次退出时已暂停则保持暂停）
+  Scheduler.restore(onFinish)
 
   // 暴露方法：停止倒计时
   ipcMain.handle('stop-countdown', () => {
     Scheduler.stopCountdown()
   })
 
+  // 暴露方法：暂停倒计时
+  ipcMain.handle('pause-countdown', () => {
+    Scheduler.pause()
+  })
+
+  // 暴露方法：继续倒计时
+  ipcMain.handle('resume-countdown', () => {
+    Scheduler.resume()
+  })
+
+  // 暴露方法：获取计时状态
+  ipcMain.handle('get-timer-state', () => {
+    return Scheduler.getState()
+  })
+
   // 暴露方法：重置倒计时
   ipcMain.handle('reset-countdown', () => {
     Scheduler.resetCountdown(onFinish)
@@ -183,6 +346,219 @@ function tasks(): void {
 
   // 暴露方法：设置倒计时时间
   ipcMain.handle('set-countdown-duration', (_, seconds: number) => {
+    if (validateSettings({ workDuration: seconds })) {
+      throw new Error(t('settingsForm.invalid', { field: t('settingsForm.fields.workDuration') }))
+    }
     Scheduler.setDuration(seconds, onFinish)
   })
+
+  // 暴露方法：获取当前阶段
+  ipcMain.handle('get-phase', () => {
+    return Scheduler.getPhase()
+  })
+
+  // 暴露方法：立即休息
+  ipcMain.handle('start-break', () => {
+    Scheduler.startBreak()
+  })
+
+  // 暴露方法：跳过本次休息
+  ipcMain.handle('skip-break', (_, via?: string) => {
+    Scheduler.skipBreak(via)
+  })
+
+  // 暴露方法：推迟休息
+  ipcMain.handle('postpone-break', (_, seconds: number) => {
+    if (Number.isInteger(seconds) && seconds > 0) {
+      Scheduler.postpone(seconds)
+    }
+  })
+
+  // 暴露方法：设置是否跳过下一次休息
+  ipcMain.handle('skip-next-break', (_, skip: boolean) => {
+    Scheduler.setSkipNextBreak(!!skip)
+    if (skip) closeBreakWarning()
+  })
+}
+
+function settings(): void {
+  // 配置变化时通知所有窗口；倒计时快照每隔几秒就会写入，不必推送
+  settingsStore.on('change', (data: Settings, patch: SettingsPatch) => {
+    if (Object.keys(patch).some((key) => key !== 'countdown')) {
+      broadcast('settings-changed', data)
+    }
+  })
+
+  // 暴露方法：读取配置
+  ipcMain.handle('get-settings', () => {
+    return settingsStore.getAll()
+  })
+
+  // 暴露方法：更新配置（校验不通过时抛错，渲染进程 invoke 会收到 reject）
+  ipcMain.handle('set-settings', (_, patch: SettingsPatch) => {
+    const invalid = validateSettings(patch)
+    if (invalid) {
+      throw new Error(t('settingsForm.invalid', { field: t(`settingsForm.fields.${invalid}`) }))
+    }
+    return settingsStore.set(patch)
+  })
+
+  // 暴露方法：获取本机控制接口的运行状态
+  ipcMain.handle('get-api-status', () => {
+    return getApiStatus()
+  })
+
+  // 暴露方法：重新生成本机控制接口令牌，旧令牌立即失效
+  ipcMain.handle('regenerate-api-token', () => {
+    return regenerateApiToken()
+  })
+
+  // 暴露方法：选择提示音文件，返回文件路径，用户取消时返回 null
+  ipcMain.handle('choose-sound-file', (event) => {
+    return showFileDialog(event.sender, 'open', {
+      properties: ['openFile'],
+      filters: [{ name: 'Audio', extensions: SOUND_EXTENSIONS }]
+    })
+  })
+
+  // 暴露方法：试听提示音，file 为空时使用当前配置
+  ipcMain.handle('preview-sound', (_, cue: SoundCue, file?: string) => {
+    const current = settingsStore.get('sounds')
+    if (!(cue in current)) return
+    if (validateSettings({ sounds: { ...current, [cue]: file ?? '' } })) return
+    previewSound(cue, file)
+  })
+}
+
+function stats(): void {
+  // 每段工作/休息结束时追加一条历史记录
+  Scheduler.on('session', (record: Omit<SessionRecord, 'id'>) => {
+    historyStore.append(record)
+  })
+
+  // 暴露方法：获取统计数据
+  ipcMain.handle('get-stats', () => {
+    return getStats()
+  })
+
+  // 暴露方法：按时间范围获取历史记录
+  ipcMain.handle('get-history', (_, from?: number, to?: number) => {
+    return historyStore.query(from, to)
+  })
+}
+
+function calendar(): void {
+  // 暴露方法：获取日历读取情况与接下来的会议
+  ipcMain.handle('get-calendar-status', () => {
+    return getCalendarStatus()
+  })
+
+  // 暴露方法：立即重新读取日历
+  ipcMain.handle('refresh-calendars', async () => {
+    await reloadCalendars()
+    return getCalendarStatus()
+  })
+
+  // 暴露方法：选择 .ics 文件，用户取消时返回 null
+  ipcMain.handle('choose-calendar-file', (event) => {
+    return showFileDialog(event.sender, 'open', {
+      properties: ['openFile'],
+      filters: [{ name: 'iCalendar', extensions: ['ics'] }]
+    })
+  })
+}
+
+function reminders(): void {
+  // 暴露方法：获取所有提醒及下次触发时间
+  ipcMain.handle('get-reminders', () => {
+    return getReminders()
+  })
+
+  // 暴露方法：新增（没有 id 时）或修改提醒
+  ipcMain.handle('save-reminder', (_, reminder: Omit<Reminder, 'id'> & { id?: string }) => {
+    const saved: Reminder = { ...reminder, id: reminder.id || randomUUID() }
+    const current = settingsStore.get('reminders')
+    const list = current.some((item) => item.id === saved.id)
+      ? current.map((item) => (item.id === saved.id ? saved : item))
+      : [...current, saved]
+    if (validateSettings({ reminders: list })) {
+      throw new Error(t('settingsForm.invalid', { field: t('settingsForm.fields.reminders') }))
+    }
+    settingsStore.set({ reminders: list })
+    return getReminders()
+  })
+
+  // 暴露方法：删除提醒
+  ipcMain.handle('delete-reminder', (_, id: string) => {
+    settingsStore.set({
+      reminders: settingsStore.get('reminders').filter((item) => item.id !== id)
+    })
+    return getReminders()
+  })
+
+  // 暴露方法：立即触发一次提醒，用于预览提醒效果
+  ipcMain.handle('test-reminder', (_, id: string) => {
+    const reminder = settingsStore.get('reminders').find((item) => item.id === id)
+    if (reminder) showReminder(reminder)
+  })
+}
+
+function updates(): void {
+  // 暴露方法：获取更新检查 / 下载状态
+  ipcMain.handle('get-update-status', () => {
+    return getUpdateStatus()
+  })
+
+  // 暴露方法：立即检查更新
+  ipcMain.handle('check-for-updates', () => {
+    return checkForUpdates()
+  })
+
+  // 暴露方法：退出并安装已下载的更新
+  ipcMain.handle('install-update', () => {
+    installUpdate()
+  })
+}
+
+function transfer(): void {
+  // 暴露方法：导出休息记录，返回保存路径，用户取消时返回 null
+  ipcMain.handle(
+    'export-history',
+    async (event, format: HistoryFormat, from?: number, to?: number) => {
+      if (!HISTORY_FORMATS.includes(format)) {
+        throw new Error(t('transfer.errors.format', { format: String(format) }))
+      }
+      const filePath = await showFileDialog(event.sender, 'save', {
+        title: t('transfer.exportHistory'),
+        defaultPath: `ixiu-history.${format}`,
+        filters: [{ name: format.toUpperCase(), extensions: [format] }]
+      })
+      if (!filePath) return null
+      writeFileSync(filePath, exportHistory(format, from, to), 'utf-8')
+      return filePath
+    }
+  )
+
+  // 暴露方法：导出配置
+  ipcMain.handle('export-settings', async (event) => {
+    const filePath = await showFileDialog(event.sender, 'save', {
+      title: t('transfer.exportSettings'),
+      defaultPath: 'ixiu-settings.json',
+      filters: [{ name: 'JSON', extensions: ['json'] }]
+    })
+    if (!filePath) return null
+    writeFileSync(filePath, exportSettings(), 'utf-8')
+    return filePath
+  })
+
+  // 暴露方法：导入配置，文件版本或结构不对时抛错，渲染进程 invoke 会收到 reject
+  ipcMain.handle('import-settings', async (event) => {
+    const filePath = await showFileDialog(event.sender, 'open', {
+      title: t('transfer.importSettings'),
+      properties: ['openFile'],
+      filters: [{ name: 'JSON', extensions: ['json'] }]
+    })
+    if (!filePath) return null
+    return settingsStore.set(parseSettingsBundle(readFileSync(filePath, 'utf-8')))
+  })
 }
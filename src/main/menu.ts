@@ -0,0 +1,112 @@
+import { app, ipcMain, Menu, shell } from 'electron'
+import { t } from './i18n'
+import settings from './store/settings'
+import { createAboutWindow } from './screen/AboutWindow'
+import { createSettingsWindow } from './screen/SettingsWindow'
+import { createWhitelistWindow } from './screen/WhitelistWindow'
+import { createCalendarWindow } from './screen/CalendarWindow'
+import { createRemindersWindow } from './screen/RemindersWindow'
+import { createStatsWindow } from './screen/StatsWindow'
+import { createDataWindow } from './screen/DataWindow'
+import { createActivitiesWindow } from './screen/ActivitiesWindow'
+import { createUpdateWindow } from './screen/UpdateWindow'
+
+const REPO_URL = 'https://github.com/nianyi778/ixiu'
+
+// 设置菜单（SettingMenu）中的各项操作
+export type MenuAction =
+  | 'about'
+  | 'update'
+  | 'settings'
+  | 'whitelist'
+  | 'calendar'
+  | 'reminders'
+  | 'activities'
+  | 'stats'
+  | 'data'
+  | 'feedback'
+  | 'rate'
+  | 'quit'
+
+export function runMenuAction(action: MenuAction): void {
+  switch (action) {
+    case 'about':
+      createAboutWindow()
+      break
+    case 'update':
+      createUpdateWindow()
+      break
+    case 'settings':
+      createSettingsWindow()
+      break
+    case 'whitelist':
+      createWhitelistWindow()
+      break
+    case 'calendar':
+      createCalendarWindow()
+      break
+    case 'reminders':
+      createRemindersWindow()
+      break
+    case 'activities':
+      createActivitiesWindow()
+      break
+    case 'stats':
+      createStatsWindow()
+      break
+    case 'data':
+      createDataWindow()
+      break
+    case 'feedback':
+      shell.openExternal(`${REPO_URL}/issues`)
+      break
+    case 'rate':
+      shell.openExternal(REPO_URL)
+      break
+    case 'quit':
+      app.quit()
+      break
+    default:
+      console.warn(`Unknown menu action: ${action}`)
+  }
+}
+
+// 应用菜单：菜单栏虽不显示，但其中的快捷键（⌘, / ⌘Q）在应用窗口聚焦时生效
+function buildAppMenu(): Menu {
+  return Menu.buildFromTemplate([
+    {
+      label: app.name,
+      submenu: [
+        { label: t('settingMenu.about'), click: (): void => runMenuAction('about') },
+        { label: t('settingMenu.update'), click: (): void => runMenuAction('update') },
+        { type: 'separator' },
+        {
+          label: t('settingMenu.settings'),
+          accelerator: 'CmdOrCtrl+,',
+          click: (): void => runMenuAction('settings')
+        },
+        { type: 'separator' },
+        {
+          label: t('settingMenu.quit'),
+          accelerator: 'CmdOrCtrl+Q',
+          click: (): void => runMenuAction('quit')
+        }
+      ]
+    },
+    // 保留编辑菜单，输入框中的复制、粘贴等快捷键依赖它
+    { role: 'editMenu' }
+  ])
+}
+
+export function setupMenu(): void {
+  Menu.setApplicationMenu(buildAppMenu())
+  settings.on('change', (_, patch) => {
+    if ('language' in patch) {
+      Menu.setApplicationMenu(buildAppMenu())
+    }
+  })
+
+  ipcMain.on('setting-menu-action', (_, action: MenuAction) => {
+    runMenuAction(action)
+  })
+}
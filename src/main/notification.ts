@@ -0,0 +1,110 @@
+import { dialog, Notification } from 'electron'
+import { t } from './i18n'
+import settings, { Reminder } from './store/settings'
+import Scheduler from './tasks/scheduler'
+import { showWindow } from './screen/HomeScreen'
+import { createUpdateWindow } from './screen/UpdateWindow'
+import { installUpdate } from './updater'
+import { playSound } from './sound'
+
+// 推迟按钮对应的分钟数
+const SNOOZE_MINUTES = 5
+
+// 当前显示的休息前提醒，保留引用避免被回收后按钮失效
+let warning: Notification | null = null
+let updateReady: Notification | null = null
+
+// 温和模式下以系统通知代替全屏遮罩提醒休息
+export function showBreakNotification(): void {
+  if (!Notification.isSupported()) return
+  new Notification({
+    title: t('notification.breakTitle'),
+    body: settings.get('breakMessage') || t('notification.breakBody'),
+    silent: true // 提示音由 sound.ts 统一播放
+  }).show()
+}
+
+// 休息前提醒：通知按钮（仅 macOS 支持）可立即休息、推迟或跳过本次休息，点击通知打开首页
+export function showBreakWarning(seconds: number): void {
+  if (!Notification.isSupported()) return
+  closeBreakWarning()
+
+  const actions: { text: string; run: () => void }[] = [
+    { text: t('warning.breakNow'), run: (): void => Scheduler.startBreak() }
+  ]
+  if (Scheduler.canPostpone()) {
+    actions.push({
+      text: t('warning.postpone', { count: SNOOZE_MINUTES }),
+      run: (): void => Scheduler.postpone(SNOOZE_MINUTES * 60)
+    })
+  }
+  if (settings.get('allowSkip')) {
+    actions.push({ text: t('warning.skip'), run: (): void => Scheduler.setSkipNextBreak(true) })
+  }
+
+  warning = new Notification({
+    title: t('warning.title'),
+    body: t('warning.body', { count: seconds }),
+    silent: true,
+    actions: actions.map(({ text }) => ({ type: 'button', text }))
+  })
+  warning.on('action', (_, index) => actions[index]?.run())
+  warning.on('click', () => showWindow())
+  warning.on('close', () => {
+    warning = null
+  })
+  warning.show()
+}
+
+// 收起休息前提醒（已进入休息、已跳过等）
+export function closeBreakWarning(): void {
+  warning?.close()
+  warning = null
+}
+
+// 自定义提醒：系统通知（可带提示音）或需要手动关闭的对话框
+export function showReminder(reminder: Reminder): void {
+  const title = reminder.name
+  const body = reminder.message || t('reminders.defaultMessage')
+  if (reminder.style === 'dialog' || !Notification.isSupported()) {
+    dialog.showMessageBox({ type: 'info', title, message: title, detail: body })
+    return
+  }
+  if (reminder.style === 'notification') {
+    playSound('warning')
+  }
+  new Notification({ title, body, silent: true }).show()
+}
+
+// 当前计时状态（由命令行 --status 或 ixiu://status 触发），点击通知打开首页
+export function showStatusNotification(): void {
+  if (!Notification.isSupported()) return
+  const info = Scheduler.getPhase()
+  const notification = new Notification({
+    title: t('notification.statusTitle'),
+    body: t('tray.status', {
+      state: t(`tray.state.${info.state}`),
+      count: Math.ceil(info.remainingTime / 60)
+    }),
+    silent: true
+  })
+  notification.on('click', () => showWindow())
+  notification.show()
+}
+
+// 更新已下载：通知按钮（仅 macOS 支持）可立即重启安装，点击通知打开更新窗口
+export function showUpdateReady(version: string): void {
+  if (!Notification.isSupported()) return
+  updateReady = new Notification({
+    title: t('update.readyTitle'),
+    body: t('update.readyBody', { version }),
+    silent: true,
+    actions: [{ type: 'button', text: t('update.restart') }]
+  })
+  updateReady.on('action', () => installUpdate())
+  updateReady.on('click', () => createUpdateWindow())
+  updateReady.on('close', () => {
+    updateReady = null
+  })
+  updateReady.show()
+}
@@ -0,0 +1,6 @@
+import { BrowserWindow } from 'electron'
+import { createPageWindow } from './PageWindow'
+import { t } from '../i18n'
+
+export const createAboutWindow = (): BrowserWindow =>
+  createPageWindow({ route: '/about', title: t('settingMenu.about'), width: 360, height: 300 })
@@ -0,0 +1,11 @@
+import { BrowserWindow } from 'electron'
+import { createPageWindow } from './PageWindow'
+import { t } from '../i18n'
+
+export const createActivitiesWindow = (): BrowserWindow =>
+  createPageWindow({
+    route: '/activities',
+    title: t('settingMenu.activities'),
+    width: 460,
+    height: 560
+  })
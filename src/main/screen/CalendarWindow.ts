@@ -0,0 +1,11 @@
+import { BrowserWindow } from 'electron'
+import { createPageWindow } from './PageWindow'
+import { t } from '../i18n'
+
+export const createCalendarWindow = (): BrowserWindow =>
+  createPageWindow({
+    route: '/calendar',
+    title: t('settingMenu.calendar'),
+    width: 460,
+    height: 600
+  })
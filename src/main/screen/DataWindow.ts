@@ -0,0 +1,6 @@
+import { BrowserWindow } from 'electron'
+import { createPageWindow } from './PageWindow'
+import { t } from '../i18n'
+
+export const createDataWindow = (): BrowserWindow =>
+  createPageWindow({ route: '/data', title: t('settingMenu.data'), width: 420, height: 420 })
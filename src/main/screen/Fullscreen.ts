@@ -1,29 +1,33 @@
-// 弹窗遮罩win
+// 弹窗遮罩win：每个显示器一个，按显示器 id 管理
 
-import { app, BrowserWindow, globalShortcut, screen, shell } from 'electron'
+import { BrowserWindow, Display, screen, shell } from 'electron'
 import { join } from 'path'
 import { is } from '@electron-toolkit/utils'
 import { rendererVisible, windowsMap } from '../index'
+import Scheduler, { isBreakPhase } from '../tasks/scheduler'
+import settings from '../store/settings'
 
-export let fullWindow: BrowserWindow | null = null
+// 严格模式下需要在多长时间（毫秒）内连续按几次 Escape 才能跳过休息
+const STRICT_ESCAPE_PRESSES = 3
+const STRICT_ESCAPE_WINDOW = 1500
 
-export const createFullscreen = (): BrowserWindow => {
-  const winIsVisible = function (): boolean {
-    return !!(fullWindow && fullWindow.isVisible())
-  }
+export const fullWindows = new Map<number, BrowserWindow>()
 
-  if (fullWindow) {
-    rendererVisible({
-      visible: !winIsVisible(),
-      mainWindow: fullWindow
-    })
-    return fullWindow
-  }
+// 遮罩当前是否应当显示，新接入的显示器据此决定是否立即显示遮罩
+let overlayVisible = false
+let watching = false
+let escapePresses: number[] = []
+
+const isStrictBreak = (): boolean =>
+  settings.get('enforcement') === 'strict' && isBreakPhase(Scheduler.getPhase().phase)
 
-  // 获取主屏幕的完整尺寸（包括信号栏/任务栏区域）
-  const primaryDisplay = screen.getPrimaryDisplay()
-  const { width, height, x, y } = primaryDisplay.bounds
-  fullWindow = new BrowserWindow({
+const isOverlay = (win: BrowserWindow | null): boolean =>
+  !!win && Array.from(fullWindows.values()).includes(win)
+
+const createOverlay = (display: Display): BrowserWindow => {
+  // 显示器的完整尺寸（包括信号栏/任务栏区域）
+  const { width, height, x, y } = display.bounds
+  const win = new BrowserWindow({
     resizable: false, // 禁止调整窗口大小
     show: false, // 窗口创建时不显示
     width,
@@ -47,43 +51,41 @@ export const createFullscreen = (): BrowserWindow => {
       contextIsolation: false
     }
   })
+  fullWindows.set(display.id, win)
+  const id = win.id
 
-  // 注册快捷键
-  app.whenReady().then(() => {
-    globalShortcut.register('Escape', () => {
-      rendererVisible({ visible: false, mainWindow: fullWindow })
-    })
-  })
-
-  fullWindow.on('ready-to-show', () => {
-    if (fullWindow) {
-      windowsMap.set(fullWindow?.id, fullWindow)
-      rendererVisible({ visible: true, mainWindow: fullWindow })
-      // WIN 系统下设置背景透明
-      fullWindow?.setBackgroundColor('#00000000')
-      // 设置优先级
-      fullWindow?.setAlwaysOnTop(true, 'screen-saver')
+  win.on('ready-to-show', () => {
+    windowsMap.set(id, win)
+    // WIN 系统下设置背景透明
+    win.setBackgroundColor('#00000000')
+    // 设置优先级
+    win.setAlwaysOnTop(true, 'screen-saver')
+    if (overlayVisible) {
+      rendererVisible({ visible: true, mainWindow: win })
     }
   })
 
-  fullWindow.on('blur', () => {
-    fullWindow?.hide()
+  // 焦点切到其他遮罩时不处理，切到其他应用时一起收起（严格模式下重新抢回焦点）；
+  // 等焦点切换完成后再判断
+  win.on('blur', () => {
+    setTimeout(() => {
+      if (isOverlay(BrowserWindow.getFocusedWindow()) || !overlayVisible) return
+      if (isStrictBreak()) {
+        !win.isDestroyed() && win.focus()
+      } else {
+        closeFullscreen()
+      }
+    }, 100)
   })
 
-  //   监听屏幕分辨率变化，动态调整窗口大小
-  screen.on('display-metrics-changed', () => {
-    const primaryDisplay = screen.getPrimaryDisplay()
-    const { width, x, y } = primaryDisplay.bounds
-
-    fullWindow?.setBounds({
-      x,
-      y,
-      width,
-      height
-    })
+  win.on('closed', () => {
+    windowsMap.delete(id)
+    if (fullWindows.get(display.id) === win) {
+      fullWindows.delete(display.id)
+    }
   })
 
-  fullWindow.webContents.setWindowOpenHandler((details) => {
+  win.webContents.setWindowOpenHandler((details) => {
     shell.openExternal(details.url)
     return { action: 'deny' }
   })
@@ -91,12 +93,87 @@ export const createFullscreen = (): BrowserWindow => {
   // HMR for renderer base on electron-vite cli.
   // Load the remote URL for development or the local html file for production.
   if (is.dev && process.env['ELECTRON_RENDERER_URL']) {
-    fullWindow.loadURL(process.env['ELECTRON_RENDERER_URL'] + '#/overlook')
+    win.loadURL(process.env['ELECTRON_RENDERER_URL'] + '#/overlook')
   } else {
-    fullWindow.loadFile(join(__dirname, '../renderer/index.html'), {
+    win.loadFile(join(__dirname, '../renderer/index.html'), {
       hash: '#/overlook'
     })
   }
 
-  return fullWindow
+  return win
+}
+
+// 监听显示器接入/移除与分辨率变化，只注册一次
+const watchDisplays = (): void => {
+  if (watching) return
+  watching = true
+
+  screen.on('display-added', (_, display) => {
+    if (!fullWindows.has(display.id)) {
+      createOverlay(display)
+    }
+  })
+
+  screen.on('display-removed', (_, display) => {
+    const win = fullWindows.get(display.id)
+    fullWindows.delete(display.id)
+    if (win && !win.isDestroyed()) {
+      win.destroy()
+    }
+  })
+
+  // 监听屏幕分辨率变化，动态调整窗口大小
+  screen.on('display-metrics-changed', (_, display) => {
+    const win = fullWindows.get(display.id)
+    if (win && !win.isDestroyed()) {
+      win.setBounds(display.bounds)
+    }
+  })
+}
+
+// 遮罩显示时处理 Escape（快捷键由首页统一注册），返回是否已处理
+export const handleOverlayEscape = (): boolean => {
+  if (!overlayVisible) return false
+  // 休息中按 Escape 视为跳过本次休息，阶段切换后会自动收起遮罩
+  if (isStrictBreak()) {
+    // 严格模式下需要连续按多次，防止误触
+    const now = Date.now()
+    escapePresses = [...escapePresses, now].filter((t) => now - t <= STRICT_ESCAPE_WINDOW)
+    if (escapePresses.length >= STRICT_ESCAPE_PRESSES) {
+      escapePresses = []
+      Scheduler.skipBreak('escape')
+    }
+  } else if (isBreakPhase(Scheduler.getPhase().phase)) {
+    Scheduler.skipBreak('escape')
+  } else {
+    closeFullscreen()
+  }
+  return true
+}
+
+// 在所有显示器上显示遮罩，已有窗口直接复用；返回主显示器上的遮罩
+export const createFullscreen = (): BrowserWindow => {
+  watchDisplays()
+  overlayVisible = true
+
+  screen.getAllDisplays().forEach((display) => {
+    const win = fullWindows.get(display.id)
+    if (!win || win.isDestroyed()) {
+      createOverlay(display)
+    } else if (!win.isVisible()) {
+      rendererVisible({ visible: true, mainWindow: win })
+    }
+  })
+
+  return fullWindows.get(screen.getPrimaryDisplay().id) as BrowserWindow
+}
+
+// 收起所有显示器上的遮罩（不销毁窗口，下次休息直接复用）
+export const closeFullscreen = (): void => {
+  overlayVisible = false
+  fullWindows.forEach((win) => {
+    if (!win.isDestroyed() && win.isVisible()) {
+      rendererVisible({ visible: false, mainWindow: win })
+    }
+  })
 }
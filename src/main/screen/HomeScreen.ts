@@ -5,7 +5,9 @@ import { join } from 'path'
 import { is } from '@electron-toolkit/utils'
 import { getWindowPosition, rendererVisible, tray, windowsMap } from '../index'
 import { createSettingMenu, childWindow } from './SettingMenu'
-import { createFullscreen } from './Fullscreen'
+import { handleOverlayEscape } from './Fullscreen'
+import Scheduler from '../tasks/scheduler'
+import settings from '../store/settings'
 export let mainWindow: BrowserWindow | null = null
 
 const winIsVisible = function (): boolean {
@@ -20,7 +22,7 @@ export function toggleWindow(): void {
   }
 }
 
-function showWindow(): void {
+export function showWindow(): void {
   if (mainWindow) {
     const position = getWindowPosition({ mainWindow })
     mainWindow.setPosition(position.x, position.y, false)
@@ -66,7 +68,9 @@ export const createHomescreen = (): BrowserWindow => {
   })
   // 注册快捷键
   app.whenReady().then(() => {
+    // Escape 只能注册一次：休息遮罩显示时交给遮罩处理，否则用于收起首页
     globalShortcut.register('Escape', () => {
+      if (handleOverlayEscape()) return
       if (winIsVisible()) {
         console.log('隐藏窗口，快捷键生效')
         rendererVisible({ visible: false, mainWindow })
@@ -79,12 +83,14 @@ export const createHomescreen = (): BrowserWindow => {
   mainWindow.on('ready-to-show', () => {
     if (mainWindow) {
       windowsMap.set(mainWindow.id, mainWindow)
-      // 项目第一次启动，自动打开
+      // 项目第一次启动，自动打开；开启“启动时隐藏”则只留在托盘中
       console.log('Home window ready to show')
-      // 延迟显示窗口，确保渲染进程准备就绪
-      setTimeout(() => {
-        showWindow()
-      }, 100)
+      if (!settings.get('startHidden')) {
+        // 延迟显示窗口，确保渲染进程准备就绪
+        setTimeout(() => {
+          showWindow()
+        }, 100)
+      }
     }
 
     tray?.on('click', () => {
@@ -122,7 +128,8 @@ export const createHomescreen = (): BrowserWindow => {
   ipcMain.on('createFullscreen', () => {
     winIsVisible() && rendererVisible({ visible: false, mainWindow })
     setTimeout(() => {
-      createFullscreen()
+      // 由调度器进入休息阶段，再由阶段回调打开全屏遮罩
+      Scheduler.startBreak()
     }, 100)
   })
   return mainWindow
@@ -0,0 +1,75 @@
+// 普通页面窗口（关于、设置、白名单、统计等），每个路由只保留一个实例
+
+import { BrowserWindow, shell } from 'electron'
+import { join } from 'path'
+import { is } from '@electron-toolkit/utils'
+import { windowsMap } from '../index'
+
+const pageWindows = new Map<string, BrowserWindow>()
+
+export const createPageWindow = ({
+  route,
+  title,
+  width,
+  height
+}: {
+  route: string
+  title: string
+  width: number
+  height: number
+}): BrowserWindow => {
+  // 如果窗口已经存在，直接显示
+  const existing = pageWindows.get(route)
+  if (existing && !existing.isDestroyed()) {
+    existing.show()
+    existing.focus()
+    return existing
+  }
+
+  const win = new BrowserWindow({
+    title,
+    width,
+    height,
+    show: false, // 窗口创建时不显示
+    resizable: false, // 禁止调整窗口大小
+    minimizable: false,
+    maximizable: false,
+    autoHideMenuBar: true,
+    webPreferences: {
+      sandbox: false,
+      preload: join(__dirname, '../preload/index.js'),
+      nodeIntegration: true,
+      contextIsolation: false
+    }
+  })
+  const id = win.id
+  pageWindows.set(route, win)
+
+  win.on('ready-to-show', () => {
+    windowsMap.set(id, win)
+    win.show()
+    win.focus()
+  })
+
+  win.on('closed', () => {
+    pageWindows.delete(route)
+    windowsMap.delete(id)
+  })
+
+  win.webContents.setWindowOpenHandler((details) => {
+    shell.openExternal(details.url)
+    return { action: 'deny' }
+  })
+
+  // HMR for renderer base on electron-vite cli.
+  // Load the remote URL for development or the local html file for production.
+  if (is.dev && process.env['ELECTRON_RENDERER_URL']) {
+    win.loadURL(process.env['ELECTRON_RENDERER_URL'] + '#' + route)
+  } else {
+    win.loadFile(join(__dirname, '../renderer/index.html'), {
+      hash: '#' + route
+    })
+  }
+
+  return win
+}
@@ -0,0 +1,11 @@
+import { BrowserWindow } from 'electron'
+import { createPageWindow } from './PageWindow'
+import { t } from '../i18n'
+
+export const createRemindersWindow = (): BrowserWindow =>
+  createPageWindow({
+    route: '/reminders',
+    title: t('settingMenu.reminders'),
+    width: 480,
+    height: 560
+  })
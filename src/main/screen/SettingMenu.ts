@@ -28,7 +28,7 @@ export const createSettingMenu = ({ top }: { top: BrowserWindow }): BrowserWindo
     x: x + width - 70, // 偏移到父窗口右上角
     y: y + 50, // 距离顶部 50px
     width: 140,
-    height: 190,
+    height: 300,
     // hasShadow: false,
     frame: false, // 去掉边框
     transparent: true, // 启用透明背景
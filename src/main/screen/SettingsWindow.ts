@@ -0,0 +1,11 @@
+import { BrowserWindow } from 'electron'
+import { createPageWindow } from './PageWindow'
+import { t } from '../i18n'
+
+export const createSettingsWindow = (): BrowserWindow =>
+  createPageWindow({
+    route: '/settings',
+    title: t('settingMenu.settings'),
+    width: 520,
+    height: 640
+  })
@@ -0,0 +1,6 @@
+import { BrowserWindow } from 'electron'
+import { createPageWindow } from './PageWindow'
+import { t } from '../i18n'
+
+export const createStatsWindow = (): BrowserWindow =>
+  createPageWindow({ route: '/stats', title: t('settingMenu.stats'), width: 560, height: 600 })
@@ -0,0 +1,11 @@
+import { BrowserWindow } from 'electron'
+import { createPageWindow } from './PageWindow'
+import { t } from '../i18n'
+
+export const createUpdateWindow = (): BrowserWindow =>
+  createPageWindow({
+    route: '/update',
+    title: t('settingMenu.update'),
+    width: 380,
+    height: 240
+  })
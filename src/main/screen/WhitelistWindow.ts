@@ -0,0 +1,11 @@
+import { BrowserWindow } from 'electron'
+import { createPageWindow } from './PageWindow'
+import { t } from '../i18n'
+
+export const createWhitelistWindow = (): BrowserWindow =>
+  createPageWindow({
+    route: '/whitelist',
+    title: t('settingMenu.whitelist'),
+    width: 420,
+    height: 520
+  })
@@ -0,0 +1,80 @@
+import { readFileSync, statSync } from 'fs'
+import { extname } from 'path'
+import breakStartSound from '../../resources/sounds/break-start.wav?asset'
+import breakEndSound from '../../resources/sounds/break-end.wav?asset'
+import warningSound from '../../resources/sounds/warning.wav?asset'
+import settings, { SoundCue } from './store/settings'
+import Scheduler, { isBreakPhase, Phase, PhaseInfo } from './tasks/scheduler'
+import { isDoNotDisturb } from './tasks/dnd'
+import { mainWindow } from './screen/HomeScreen'
+
+// 自定义音频文件大小上限（字节）
+const MAX_SOUND_SIZE = 5 * 1024 * 1024
+
+const BUILT_IN: Record<SoundCue, string> = {
+  breakStart: breakStartSound,
+  breakEnd: breakEndSound,
+  warning: warningSound
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.m4a': 'audio/mp4'
+}
+
+// 读成 data URL 交给渲染进程播放，开发环境页面不能直接加载本地文件
+function toDataUrl(file: string): string {
+  if (statSync(file).size > MAX_SOUND_SIZE) {
+    throw new Error(`Sound file is too large: ${file}`)
+  }
+  const mime = MIME_TYPES[extname(file).toLowerCase()] ?? 'audio/wav'
+  return `data:${mime};base64,${readFileSync(file).toString('base64')}`
+}
+
+// 自定义文件读取失败（被删除、过大等）时退回内置声音
+function loadSound(cue: SoundCue, file = settings.get('sounds')[cue]): string | null {
+  try {
+    return toDataUrl(file || BUILT_IN[cue])
+  } catch (error) {
+    console.error(`[sound] 读取提示音 ${cue} 失败:`, error)
+    if (!file) return null
+  }
+  try {
+    return toDataUrl(BUILT_IN[cue])
+  } catch {
+    return null
+  }
+}
+
+// 只交给首页窗口播放，其他窗口（遮罩、设置等）保持静音，避免多屏时重复播放
+function send(cue: SoundCue, file?: string): void {
+  const src = loadSound(cue, file)
+  if (!src || !mainWindow || mainWindow.isDestroyed()) return
+  mainWindow.webContents.send('play-sound', src, settings.get('soundVolume') / 100)
+}
+
+export async function playSound(cue: SoundCue): Promise<void> {
+  if (!settings.get('soundEnabled')) return
+  if (settings.get('respectDoNotDisturb') && (await isDoNotDisturb())) return
+  send(cue)
+}
+
+// 设置页试听：不受开关与勿扰模式影响，file 为尚未保存的文件路径
+export function previewSound(cue: SoundCue, file?: string): void {
+  send(cue, file)
+}
+
+// 阶段切换时播放：进入休息、休息正常结束、休息前提醒
+export function watchSounds(): void {
+  Scheduler.on('phase-change', (info: PhaseInfo) => {
+    if (isBreakPhase(info.phase)) playSound('breakStart')
+  })
+  Scheduler.on('finish', (phase: Phase) => {
+    if (isBreakPhase(phase)) playSound('breakEnd')
+  })
+  Scheduler.on('break-warning', () => {
+    playSound('warning')
+  })
+}
@@ -0,0 +1,69 @@
+import { app } from 'electron'
+import { randomUUID } from 'crypto'
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs'
+import { dirname, join } from 'path'
+import type { Phase } from '../tasks/scheduler'
+import type { Enforcement } from './settings'
+
+// 阶段结束方式：正常完成 / 被跳过（跳过下次休息）/ 被推迟 / 休息中途关闭 / 工作中途重置
+export type SessionOutcome = 'completed' | 'skipped' | 'postponed' | 'dismissed' | 'interrupted'
+
+// 一段工作或休息的记录
+export interface SessionRecord {
+  id: string
+  phase: Phase
+  start: number // 开始时间戳（毫秒）
+  end: number // 结束时间戳（毫秒）
+  planned: number // 计划时长（秒），包含推迟追加的时间
+  actual: number // 实际计时时长（秒），不含暂停时间
+  outcome: SessionOutcome
+  via?: string // 结束方式的来源，如 escape、overlay、reset、manual
+  postponed?: number // 工作阶段被推迟的次数
+  enforcement?: Enforcement // 休息时的强制程度
+}
+
+// 只追加的 JSON Lines 文件：每行一条记录，写入时不需要读出整个文件
+class HistoryStore {
+  private file = join(app.getPath('userData'), 'history.jsonl')
+
+  // 追加一条记录
+  public append(record: Omit<SessionRecord, 'id'>): SessionRecord {
+    const entry: SessionRecord = { id: randomUUID(), ...record }
+    try {
+      mkdirSync(dirname(this.file), { recursive: true })
+      appendFileSync(this.file, JSON.stringify(entry) + '\n', 'utf-8')
+    } catch (error) {
+      console.error('[history] 写入记录失败:', error)
+    }
+    return entry
+  }
+
+  // 按结束时间筛选记录，损坏的行（如写入中途崩溃）直接跳过
+  public query(from = 0, to = Infinity): SessionRecord[] {
+    if (!existsSync(this.file)) {
+      return []
+    }
+    let content = ''
+    try {
+      content = readFileSync(this.file, 'utf-8')
+    } catch (error) {
+      console.error('[history] 读取记录失败:', error)
+      return []
+    }
+    const records: SessionRecord[] = []
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue
+      try {
+        const record = JSON.parse(line) as SessionRecord
+        if (record.end >= from && record.end < to) {
+          records.push(record)
+        }
+      } catch {
+        // 忽略无法解析的行
+      }
+    }
+    return records
+  }
+}
+
+export default new HistoryStore()
@@ -0,0 +1,23 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+
+// 读取 JSON 文件，文件不存在或内容损坏时返回 null
+export function readJsonFile<T = unknown>(file: string): T | null {
+  if (!existsSync(file)) {
+    return null
+  }
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8')) as T
+  } catch (error) {
+    console.error(`[store] 读取 ${file} 失败:`, error)
+    return null
+  }
+}
+
+// 先写临时文件再重命名，避免进程崩溃时留下半截文件
+export function writeJsonFile(file: string, data: unknown): void {
+  mkdirSync(dirname(file), { recursive: true })
+  const tmp = `${file}.tmp`
+  writeFileSync(tmp, JSON.stringify(data, null, 2), 'utf-8')
+  renameSync(tmp, file)
+}
@@ -0,0 +1,250 @@
+import { app } from 'electron'
+import { EventEmitter } from 'events'
+import { join } from 'path'
+import { readJsonFile, writeJsonFile } from './jsonFile'
+import type { Phase } from '../tasks/scheduler'
+
+// 配置文件结构版本：结构变化时 +1，并在 migrations 中补充对应的迁移函数
+export const SETTINGS_VERSION = 1
+
+// 进行中的倒计时快照，用于重启或崩溃后恢复
+export interface CountdownSnapshot {
+  remainingTime: number // 剩余时间（秒）
+  running: boolean // 保存时是否正在计时
+  phase?: Phase // 所处阶段，旧快照没有该字段时视为工作阶段
+  cycle?: number // 已完成的工作轮数
+  savedAt: number // 保存时间戳（毫秒）
+}
+
+// 休眠/锁屏策略：暂停计时 / 视为已休息并重新开始 / 继续计时
+export type SleepPolicy = 'pause' | 'break' | 'continue'
+
+// 休息强制程度：仅通知 / 全屏遮罩可跳过 / 全屏遮罩且限制跳过
+export type Enforcement = 'gentle' | 'normal' | 'strict'
+
+// 休息活动类型：护眼 / 拉伸 / 呼吸
+export type ActivityKind = 'eye' | 'stretch' | 'breath'
+
+// 提示音：休息开始 / 休息结束 / 休息前提醒
+export type SoundCue = 'breakStart' | 'breakEnd' | 'warning'
+
+// 更新渠道：正式版 / 测试版（包含预发布版本）
+export type UpdateChannel = 'stable' | 'beta'
+
+// 工作时间段：days 为星期几（0 为星期天），start / end 为 HH:mm，end 可以是 24:00
+export interface SchedulePeriod {
+  days: number[]
+  start: string
+  end: string
+}
+
+// 用户自定义的休息活动
+export interface CustomActivity {
+  title: string
+  steps: string[]
+  long: boolean // 只在长休息中出现
+}
+
+// 自定义提醒的触发规则：每隔 N 分钟 / 每周指定几天的固定时刻 / cron 表达式
+export type ReminderRule =
+  | { type: 'interval'; minutes: number }
+  | { type: 'time'; time: string; days: number[] }
+  | { type: 'cron'; cron: string }
+
+// 提醒方式：带提示音的系统通知 / 静音通知 / 需要手动关闭的对话框
+export type ReminderStyle = 'notification' | 'silent' | 'dialog'
+
+// 用户自定义的提醒，与休息倒计时各自独立运行
+export interface Reminder {
+  id: string
+  name: string
+  message: string
+  rule: ReminderRule
+  style: ReminderStyle
+  enabled: boolean
+}
+
+// 休息时展示的活动（已翻译），image 为 data URL
+export interface Activity {
+  id: string
+  kind: ActivityKind | 'custom'
+  title: string
+  steps: string[]
+  image?: string
+}
+
+export interface Settings {
+  version: number
+  workDuration: number // 工作时长（秒）
+  breakDuration: number // 短休息时长（秒）
+  longBreakDuration: number // 长休息时长（秒）
+  longBreakInterval: number // 每完成多少轮工作进行一次长休息，0 表示不进行长休息
+  sleepPolicy: SleepPolicy // 系统休眠或锁屏时的处理方式
+  idleThreshold: number // 无操作超过该时长（秒）暂停计时，0 表示不检测
+  idleResetThreshold: number // 无操作超过该时长（秒）视为已休息，回来后重新开始计时
+  breakMessage: string // 休息时显示的提示语，空字符串使用默认提示
+  allowSkip: boolean // 是否允许跳过休息
+  allowPostpone: boolean // 是否允许推迟休息
+  enforcement: Enforcement // 休息强制程度
+  strictSkipDelay: number // 严格模式下休息开始多久（秒）后才允许跳过
+  breakWarnings: number[] // 休息前多少秒发出提醒，可设置多个时间点
+  maxSnoozes: number // 一次休息最多连续推迟几次，0 表示不限制
+  activityOrder: 'random' | 'sequence' // 休息活动随机选择或按顺序轮换
+  customActivities: CustomActivity[] // 用户自定义的休息活动
+  reminders: Reminder[] // 自定义提醒（喝水、站立、下班等）
+  scheduleEnabled: boolean // 只在工作时间内计时
+  schedulePeriods: SchedulePeriod[] // 每周的工作时间段
+  quietUntil: number // 安静模式结束时间戳（毫秒），0 表示未开启
+  whitelist: string[] // 白名单应用（进程名或窗口标题关键字），在前台时暂缓休息
+  whitelistMaxDeferral: number // 白名单最长暂缓时间（秒）
+  calendars: string[] // 日历（.ics 文件路径或本机地址），会议进行中时暂缓休息
+  calendarEarlyBreak: boolean // 休息会落在会议中时，提前到会议开始前休息
+  language: string // 界面语言，空字符串表示跟随系统
+  launchAtLogin: boolean // 开机自动启动
+  startHidden: boolean // 启动时不弹出首页，只显示托盘图标
+  soundEnabled: boolean // 阶段切换时播放提示音
+  soundVolume: number // 提示音音量（0-100）
+  sounds: Record<SoundCue, string> // 各提示音的音频文件路径，空字符串使用内置声音
+  respectDoNotDisturb: boolean // 系统开启勿扰模式时不播放提示音
+  apiEnabled: boolean // 开启本机 HTTP 控制接口
+  apiPort: number // 本机接口端口
+  apiToken: string // 本机接口访问令牌，由主进程生成，不随配置导出
+  updateAutoCheck: boolean // 启动时及定期自动检查更新
+  updateChannel: UpdateChannel // 更新渠道
+  updateServer: string // 自定义更新地址（generic 服务器），空字符串使用打包时的配置
+  countdown: CountdownSnapshot | null
+}
+
+export type SettingsPatch = Partial<Omit<Settings, 'version'>>
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
+  workDuration: 20 * 60,
+  breakDuration: 20,
+  longBreakDuration: 5 * 60,
+  longBreakInterval: 4,
+  sleepPolicy: 'pause',
+  idleThreshold: 2 * 60,
+  idleResetThreshold: 5 * 60,
+  breakMessage: '',
+  allowSkip: true,
+  allowPostpone: true,
+  enforcement: 'normal',
+  strictSkipDelay: 10,
+  breakWarnings: [60, 10],
+  maxSnoozes: 3,
+  activityOrder: 'random',
+  customActivities: [],
+  reminders: [],
+  scheduleEnabled: false,
+  schedulePeriods: [
+    { days: [1, 2, 3, 4, 5], start: '09:00', end: '12:00' },
+    { days: [1, 2, 3, 4, 5], start: '13:00', end: '18:00' }
+  ],
+  quietUntil: 0,
+  whitelist: [],
+  whitelistMaxDeferral: 30 * 60,
+  calendars: [],
+  calendarEarlyBreak: true,
+  language: '',
+  launchAtLogin: false,
+  startHidden: false,
+  soundEnabled: true,
+  soundVolume: 70,
+  sounds: { breakStart: '', breakEnd: '', warning: '' },
+  respectDoNotDisturb: true,
+  apiEnabled: false,
+  apiPort: 27345,
+  apiToken: '',
+  updateAutoCheck: true,
+  updateChannel: 'stable',
+  updateServer: '',
+  countdown: null
+}
+
+type RawSettings = Record<string, unknown>
+
+// key 为目标版本号，函数负责把上一版本的数据升级到该版本
+const migrations: Record<number, (raw: RawSettings) => RawSettings> = {}
+
+function migrate(raw: RawSettings): RawSettings {
+  let version = typeof raw.version === 'number' ? raw.version : 0
+  let data = raw
+  while (version < SETTINGS_VERSION) {
+    version++
+    const up = migrations[version]
+    data = up ? up(data) : data
+  }
+  return { ...data, version: SETTINGS_VERSION }
+}
+
+// 只保留类型与默认值一致的字段，其余回退到默认值
+function sanitize(raw: RawSettings): Settings {
+  const result = { ...DEFAULT_SETTINGS }
+  for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]) {
+    const value = raw[key]
+    const fallback = DEFAULT_SETTINGS[key]
+    if (value === undefined) continue
+    if (Array.isArray(fallback)) {
+      if (Array.isArray(value)) (result as RawSettings)[key] = value
+    } else if (fallback === null ? typeof value === 'object' : typeof value === typeof fallback) {
+      ;(result as RawSettings)[key] = value
+    }
+  }
+  return result
+}
+
+/**
+ * 事件：
+ * - change (settings: Settings, patch: SettingsPatch) 配置更新后触发
+ */
+class SettingsStore extends EventEmitter {
+  private file = join(app.getPath('userData'), 'settings.json')
+  private data: Settings
+
+  constructor() {
+    super()
+    this.data = this.load()
+  }
+
+  private load(): Settings {
+    const raw = readJsonFile<RawSettings>(this.file)
+    if (!raw || typeof raw !== 'object') {
+      return { ...DEFAULT_SETTINGS }
+    }
+    const data = sanitize(migrate(raw))
+    if (raw.version !== SETTINGS_VERSION) {
+      // 迁移后立即落盘，避免下次启动重复迁移
+      this.write(data)
+    }
+    return data
+  }
+
+  private write(data: Settings): void {
+    try {
+      writeJsonFile(this.file, data)
+    } catch (error) {
+      console.error('[settings] 保存配置失败:', error)
+    }
+  }
+
+  // 获取单个配置项
+  public get<K extends keyof Settings>(key: K): Settings[K] {
+    return this.data[key]
+  }
+
+  // 获取全部配置
+  public getAll(): Settings {
+    return { ...this.data }
+  }
+
+  // 更新配置并写入磁盘
+  public set(patch: SettingsPatch): Settings {
+    this.data = sanitize({ ...this.data, ...patch })
+    this.write(this.data)
+    this.emit('change', this.getAll(), patch)
+    return this.getAll()
+  }
+}
+
+export default new SettingsStore()
@@ -0,0 +1,130 @@
+import history, { SessionOutcome, SessionRecord } from './history'
+import { isBreakPhase } from '../tasks/scheduler'
+
+// 统计展示的天数（含今天）
+const STATS_DAYS = 7
+
+// 单日（或一段时间）的汇总
+export interface DailyStats {
+  date: string // 本地日期 YYYY-MM-DD，多日汇总时为起始日期
+  work: number // 工作计时总时长（秒）
+  break: number // 休息计时总时长（秒）
+  breaks: Record<SessionOutcome, number> // 各结束方式的休息次数
+}
+
+export interface Stats {
+  today: DailyStats
+  week: DailyStats // 最近 7 天合计
+  days: DailyStats[] // 最近 7 天，按日期升序
+  compliance: number | null // 最近 7 天休息完成率（0-1），没有休息记录时为 null
+  streak: number // 连续达标天数（截至今天）
+  bestStreak: number // 历史最长连续达标天数
+}
+
+function dateKey(time: number): string {
+  const date = new Date(time)
+  const pad = (n: number): string => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function emptyDay(date: string): DailyStats {
+  return {
+    date,
+    work: 0,
+    break: 0,
+    breaks: { completed: 0, skipped: 0, postponed: 0, dismissed: 0, interrupted: 0 }
+  }
+}
+
+function addRecord(day: DailyStats, record: SessionRecord): void {
+  if (isBreakPhase(record.phase)) {
+    day.break += record.actual
+    day.breaks[record.outcome]++
+  } else {
+    day.work += record.actual
+  }
+}
+
+function sumDays(days: DailyStats[]): DailyStats {
+  const total = emptyDay(days[0].date)
+  days.forEach((day) => {
+    total.work += day.work
+    total.break += day.break
+    ;(Object.keys(total.breaks) as SessionOutcome[]).forEach((key) => {
+      total.breaks[key] += day.breaks[key]
+    })
+  })
+  return total
+}
+
+// 推迟的休息稍后仍会进行，不计入完成率的分母
+function compliance(day: DailyStats): number | null {
+  const { completed, skipped, dismissed } = day.breaks
+  const total = completed + skipped + dismissed
+  return total ? completed / total : null
+}
+
+// 达标：当天至少完成一次休息，且没有跳过或中途关闭的休息
+function isGoodDay(day?: DailyStats): boolean {
+  return !!day && day.breaks.completed > 0 && !day.breaks.skipped && !day.breaks.dismissed
+}
+
+function shiftDay(time: number, offset: number): number {
+  const date = new Date(time)
+  date.setDate(date.getDate() + offset)
+  return date.getTime()
+}
+
+export function getStats(now = Date.now()): Stats {
+  const byDate = new Map<string, DailyStats>()
+  history.query().forEach((record) => {
+    const key = dateKey(record.start)
+    const day = byDate.get(key) ?? emptyDay(key)
+    addRecord(day, record)
+    byDate.set(key, day)
+  })
+
+  const days: DailyStats[] = []
+  for (let i = STATS_DAYS - 1; i >= 0; i--) {
+    const key = dateKey(shiftDay(now, -i))
+    days.push(byDate.get(key) ?? emptyDay(key))
+  }
+  const week = sumDays(days)
+
+  // 今天还没完成休息（且没有跳过）时不中断连续天数，从昨天开始往前数
+  const today = days[days.length - 1]
+  let streak = 0
+  let cursor =
+    isGoodDay(today) || today.breaks.skipped || today.breaks.dismissed ? now : shiftDay(now, -1)
+  while (isGoodDay(byDate.get(dateKey(cursor)))) {
+    streak++
+    cursor = shiftDay(cursor, -1)
+  }
+
+  let bestStreak = 0
+  let run = 0
+  let prev = ''
+  Array.from(byDate.keys())
+    .sort()
+    .forEach((key) => {
+      if (!isGoodDay(byDate.get(key))) {
+        run = 0
+        return
+      }
+      // 日期不连续时重新计数
+      const [y, m, d] = key.split('-').map(Number)
+      const yesterday = dateKey(new Date(y, m - 1, d - 1).getTime())
+      run = prev === yesterday && run > 0 ? run + 1 : 1
+      prev = key
+      bestStreak = Math.max(bestStreak, run)
+    })
+
+  return {
+    today,
+    week,
+    days,
+    compliance: compliance(week),
+    streak,
+    bestStreak: Math.max(bestStreak, streak)
+  }
+}
@@ -0,0 +1,96 @@
+import { t } from '../i18n'
+import historyStore, { SessionRecord } from './history'
+import settingsStore, { SETTINGS_VERSION, SettingsPatch } from './settings'
+import { validateSettings } from './validateSettings'
+
+export type HistoryFormat = 'csv' | 'json'
+export const HISTORY_FORMATS: HistoryFormat[] = ['csv', 'json']
+
+// 配置导出文件结构，kind 用于区分其他 JSON 文件
+export interface SettingsBundle {
+  kind: 'ixiu-settings'
+  version: number
+  exportedAt: string
+  settings: SettingsPatch
+}
+
+const CSV_COLUMNS: (keyof SessionRecord)[] = [
+  'id',
+  'phase',
+  'outcome',
+  'start',
+  'end',
+  'planned',
+  'actual',
+  'postponed',
+  'via',
+  'enforcement'
+]
+
+// 含逗号、引号或换行的字段需要用引号包裹
+function csvCell(value: unknown): string {
+  const text = value === undefined ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// 导出休息记录，时间字段转为 ISO 字符串方便表格软件识别
+export function exportHistory(format: HistoryFormat, from?: number, to?: number): string {
+  const records = historyStore.query(from, to)
+  if (format === 'json') {
+    return JSON.stringify(records, null, 2)
+  }
+  const rows = records.map((record) =>
+    CSV_COLUMNS.map((key) =>
+      csvCell(key === 'start' || key === 'end' ? new Date(record[key]).toISOString() : record[key])
+    ).join(',')
+  )
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+}
+
+// 导出配置，不包含倒计时快照、本机接口令牌和测试用的更新地址
+export function exportSettings(): string {
+  const { version, ...rest } = settingsStore.getAll()
+  const bundle: SettingsBundle = {
+    kind: 'ixiu-settings',
+    version,
+    exportedAt: new Date().toISOString(),
+    settings: { ...rest, countdown: undefined, apiToken: undefined, updateServer: undefined } // JSON.stringify 会省略 undefined 字段
+  }
+  return JSON.stringify(bundle, null, 2)
+}
+
+// 解析并校验导入的配置文件，不合法时抛出带有具体原因的错误
+export function parseSettingsBundle(content: string): SettingsPatch {
+  let bundle: Partial<SettingsBundle>
+  try {
+    bundle = JSON.parse(content)
+  } catch {
+    throw new Error(t('transfer.errors.parse'))
+  }
+  if (
+    !bundle ||
+    typeof bundle !== 'object' ||
+    bundle.kind !== 'ixiu-settings' ||
+    !bundle.settings ||
+    typeof bundle.settings !== 'object'
+  ) {
+    throw new Error(t('transfer.errors.shape'))
+  }
+  if (
+    !Number.isInteger(bundle.version) ||
+    (bundle.version as number) < 1 ||
+    (bundle.version as number) > SETTINGS_VERSION
+  ) {
+    throw new Error(
+      t('transfer.errors.version', { version: bundle.version, supported: SETTINGS_VERSION })
+    )
+  }
+  // 更新地址只在本机设置，旧版本导出的文件中即使包含也不导入
+  const patch = { ...bundle.settings }
+  delete patch.updateServer
+  const invalid = validateSettings(patch)
+  if (invalid) {
+    throw new Error(t('settingsForm.invalid', { field: t(`settingsForm.fields.${invalid}`) }))
+  }
+  return patch
+}
@@ -0,0 +1,198 @@
+import { extname, isAbsolute } from 'path'
+import { is } from '@electron-toolkit/utils'
+import type { SettingsPatch } from './settings'
+
+export const LANGUAGES = ['', 'zh', 'en', 'ja', 'ko']
+
+// 可选作提示音的音频格式
+export const SOUND_EXTENSIONS = ['wav', 'mp3', 'ogg', 'm4a']
+
+const integerIn =
+  (min: number, max: number) =>
+  (value: unknown): boolean =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+
+const oneOf =
+  (options: unknown[]) =>
+  (value: unknown): boolean =>
+    options.includes(value)
+
+const isBoolean = (value: unknown): boolean => typeof value === 'boolean'
+
+const textIn =
+  (min: number, max: number) =>
+  (value: unknown): boolean =>
+    typeof value === 'string' && value.trim().length >= min && value.length <= max
+
+// 空字符串表示内置声音，否则必须是支持格式的绝对路径
+const isSoundFile = (value: unknown): boolean =>
+  value === '' ||
+  (typeof value === 'string' &&
+    value.length <= 1024 &&
+    isAbsolute(value) &&
+    SOUND_EXTENSIONS.includes(extname(value).slice(1).toLowerCase()))
+
+// 日历源：.ics 文件的绝对路径、file:// 地址或本机 http(s) 地址
+const isCalendarSource = (value: unknown): boolean =>
+  typeof value === 'string' &&
+  value.length <= 1024 &&
+  (isAbsolute(value) ||
+    /^file:\/\//i.test(value) ||
+    /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?(\/|$)/i.test(value))
+
+// 更新地址仅用于测试：空字符串或本机 http(s) 地址，开发环境下允许任意 http(s) 地址
+export const isUpdateServer = (value: unknown): boolean =>
+  value === '' ||
+  (typeof value === 'string' &&
+    value.length <= 1024 &&
+    (is.dev
+      ? /^https?:\/\/[^\s/]+/i.test(value)
+      : /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?(\/|$)/i.test(value)))
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/
+
+const isSchedulePeriod = (value: unknown): boolean => {
+  if (!value || typeof value !== 'object') return false
+  const { days, start, end } = value as Record<string, unknown>
+  return (
+    Array.isArray(days) &&
+    days.length > 0 &&
+    new Set(days).size === days.length &&
+    days.every(integerIn(0, 6)) &&
+    typeof start === 'string' &&
+    typeof end === 'string' &&
+    TIME_PATTERN.test(start) &&
+    TIME_PATTERN.test(end) &&
+    start !== '24:00' &&
+    start < end
+  )
+}
+
+const isCustomActivity = (value: unknown): boolean => {
+  if (!value || typeof value !== 'object') return false
+  const { title, steps, long } = value as Record<string, unknown>
+  return (
+    textIn(1, 50)(title) &&
+    Array.isArray(steps) &&
+    steps.length <= 10 &&
+    steps.every(textIn(1, 200)) &&
+    isBoolean(long)
+  )
+}
+
+// cron 表达式：5 或 6 个字段，能否解析在创建任务时再确认
+const CRON_PATTERN = /^\s*[\w*?,/#-]+(\s+[\w*?,/#-]+){4,5}\s*$/
+
+const isReminderRule = (value: unknown): boolean => {
+  if (!value || typeof value !== 'object') return false
+  const rule = value as Record<string, unknown>
+  switch (rule.type) {
+    case 'interval':
+      return integerIn(1, 24 * 60)(rule.minutes)
+    case 'time':
+      return (
+        typeof rule.time === 'string' &&
+        TIME_PATTERN.test(rule.time) &&
+        rule.time !== '24:00' &&
+        Array.isArray(rule.days) &&
+        rule.days.length > 0 &&
+        new Set(rule.days).size === rule.days.length &&
+        rule.days.every(integerIn(0, 6))
+      )
+    case 'cron':
+      return (
+        typeof rule.cron === 'string' && rule.cron.length <= 100 && CRON_PATTERN.test(rule.cron)
+      )
+    default:
+      return false
+  }
+}
+
+const isReminder = (value: unknown): boolean => {
+  if (!value || typeof value !== 'object') return false
+  const { id, name, message, rule, style, enabled } = value as Record<string, unknown>
+  return (
+    textIn(1, 64)(id) &&
+    textIn(1, 50)(name) &&
+    textIn(0, 200)(message) &&
+    isReminderRule(rule) &&
+    oneOf(['notification', 'silent', 'dialog'])(style) &&
+    isBoolean(enabled)
+  )
+}
+
+// 渲染进程可修改的配置项及其校验规则；不在表中的字段（如 countdown）不允许从外部修改
+const rules: { [K in keyof SettingsPatch]: (value: unknown) => boolean } = {
+  workDuration: integerIn(60, 4 * 60 * 60),
+  breakDuration: integerIn(5, 60 * 60),
+  longBreakDuration: integerIn(60, 2 * 60 * 60),
+  longBreakInterval: integerIn(0, 12),
+  sleepPolicy: oneOf(['pause', 'break', 'continue']),
+  idleThreshold: (value) => value === 0 || integerIn(30, 60 * 60)(value),
+  idleResetThreshold: integerIn(60, 24 * 60 * 60),
+  breakMessage: (value) => typeof value === 'string' && value.length <= 100,
+  allowSkip: isBoolean,
+  allowPostpone: isBoolean,
+  enforcement: oneOf(['gentle', 'normal', 'strict']),
+  strictSkipDelay: integerIn(0, 60 * 60),
+  breakWarnings: (value) =>
+    Array.isArray(value) &&
+    value.length <= 5 &&
+    new Set(value).size === value.length &&
+    value.every(integerIn(5, 10 * 60)),
+  maxSnoozes: integerIn(0, 10),
+  activityOrder: oneOf(['random', 'sequence']),
+  customActivities: (value) =>
+    Array.isArray(value) && value.length <= 30 && value.every(isCustomActivity),
+  reminders: (value) =>
+    Array.isArray(value) &&
+    value.length <= 30 &&
+    value.every(isReminder) &&
+    new Set(value.map((item) => item.id)).size === value.length,
+  whitelist: (value) =>
+    Array.isArray(value) &&
+    value.length <= 50 &&
+    value.every((item) => typeof item === 'string' && item.trim().length > 0 && item.length <= 100),
+  whitelistMaxDeferral: integerIn(60, 4 * 60 * 60),
+  calendars: (value) => Array.isArray(value) && value.length <= 20 && value.every(isCalendarSource),
+  calendarEarlyBreak: isBoolean,
+  language: oneOf(LANGUAGES),
+  launchAtLogin: isBoolean,
+  startHidden: isBoolean,
+  soundEnabled: isBoolean,
+  soundVolume: integerIn(0, 100),
+  sounds: (value) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+    const keys = Object.keys(value)
+    return (
+      keys.length === 3 &&
+      ['breakStart', 'breakEnd', 'warning'].every(
+        (key) => keys.includes(key) && isSoundFile((value as Record<string, unknown>)[key])
+      )
+    )
+  },
+  respectDoNotDisturb: isBoolean,
+  apiEnabled: isBoolean,
+  apiPort: integerIn(1024, 65535),
+  updateAutoCheck: isBoolean,
+  updateChannel: oneOf(['stable', 'beta']),
+  updateServer: isUpdateServer,
+  scheduleEnabled: isBoolean,
+  schedulePeriods: (value) =>
+    Array.isArray(value) && value.length <= 14 && value.every(isSchedulePeriod),
+  quietUntil: (value) => Number.isInteger(value) && (value as number) >= 0
+}
+
+// 校验来自渲染进程的配置修改，返回第一个不合法的字段名，全部合法时返回 null
+export function validateSettings(patch: unknown): string | null {
+  if (!patch || typeof patch !== 'object') {
+    return 'patch'
+  }
+  for (const [key, value] of Object.entries(patch)) {
+    const rule = rules[key as keyof SettingsPatch]
+    if (!rule || !rule(value)) {
+      return key
+    }
+  }
+  return null
+}
@@ -0,0 +1,102 @@
+import { readFileSync } from 'fs'
+import eyeImage from '../../../resources/activities/eye.svg?asset'
+import stretchImage from '../../../resources/activities/stretch.svg?asset'
+import breathImage from '../../../resources/activities/breath.svg?asset'
+import Scheduler, { isBreakPhase, PhaseInfo } from './scheduler'
+import settings, { Activity, ActivityKind } from '../store/settings'
+import { t } from '../i18n'
+
+// 长休息的活动组合包含几项
+const LONG_ROUTINE_SIZE = 3
+
+// 内置活动，文字在翻译文件 activities.<id> 下；long 表示只适合长休息
+const BUILT_IN: { id: string; kind: ActivityKind; long?: boolean }[] = [
+  { id: 'lookFar', kind: 'eye' },
+  { id: 'blink', kind: 'eye' },
+  { id: 'eyeRolls', kind: 'eye' },
+  { id: 'palming', kind: 'eye' },
+  { id: 'neckStretch', kind: 'stretch' },
+  { id: 'shoulderRolls', kind: 'stretch' },
+  { id: 'wristStretch', kind: 'stretch' },
+  { id: 'standUp', kind: 'stretch', long: true },
+  { id: 'walk', kind: 'stretch', long: true },
+  { id: 'boxBreathing', kind: 'breath' },
+  { id: 'deepBreathing', kind: 'breath', long: true }
+]
+
+const IMAGES: Record<ActivityKind, string> = {
+  eye: eyeImage,
+  stretch: stretchImage,
+  breath: breathImage
+}
+
+// 图片随应用打包在 resources 中，读成 data URL 交给渲染进程，开发与打包后都能直接显示
+const imageCache = new Map<string, string>()
+function loadImage(file: string): string | undefined {
+  if (!imageCache.has(file)) {
+    try {
+      imageCache.set(file, `data:image/svg+xml;base64,${readFileSync(file).toString('base64')}`)
+    } catch (error) {
+      console.error('[activities] 读取图片失败:', error)
+      imageCache.set(file, '')
+    }
+  }
+  return imageCache.get(file) || undefined
+}
+
+// 当前休息的活动，多个显示器上的遮罩共用同一份
+let current: Activity[] = []
+let cursor = 0
+let lastId = ''
+
+// 可选的活动：内置活动加上用户自定义活动，长休息才会选到 long 的条目
+function getPool(long: boolean): Activity[] {
+  const builtIn = BUILT_IN.filter((item) => long || !item.long).map(({ id, kind }) => ({
+    id,
+    kind,
+    title: t(`activities.${id}.title`),
+    steps: t(`activities.${id}.steps`, { returnObjects: true }) as unknown as string[],
+    image: loadImage(IMAGES[kind])
+  }))
+  const custom = settings
+    .get('customActivities')
+    .filter((item) => long || !item.long)
+    .map((item, index) => ({
+      id: `custom-${index}`,
+      kind: 'custom' as const,
+      title: item.title,
+      steps: item.steps
+    }))
+  return [...builtIn, ...custom]
+}
+
+// 短休息选一项，长休息选几项组成一组；按顺序轮换或随机（尽量不与上次重复）
+function pickActivities(long: boolean): Activity[] {
+  const pool = getPool(long)
+  const size = Math.min(long ? LONG_ROUTINE_SIZE : 1, pool.length)
+  const picked: Activity[] = []
+  if (settings.get('activityOrder') === 'sequence') {
+    for (let i = 0; i < size; i++) {
+      picked.push(pool[cursor++ % pool.length])
+    }
+  } else {
+    const rest = pool.filter((item) => pool.length <= size || item.id !== lastId)
+    while (picked.length < size && rest.length) {
+      picked.push(rest.splice(Math.floor(Math.random() * rest.length), 1)[0])
+    }
+  }
+  lastId = picked[picked.length - 1]?.id ?? ''
+  return picked
+}
+
+export function getCurrentActivities(): Activity[] {
+  return current
+}
+
+// 每次进入休息时选出活动，通过 onChange 通知所有窗口
+export function watchActivities(onChange: (activities: Activity[]) => void): void {
+  Scheduler.on('phase-change', (info: PhaseInfo) => {
+    current = isBreakPhase(info.phase) ? pickActivities(info.phase === 'longBreak') : []
+    onChange(current)
+  })
+}
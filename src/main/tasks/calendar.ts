@@ -0,0 +1,111 @@
+import { readFile } from 'fs/promises'
+import { fileURLToPath } from 'url'
+import schedule from 'node-schedule'
+import Scheduler, { PhaseInfo } from './scheduler'
+import { CalendarEvent, parseCalendar } from './ics'
+import settings from '../store/settings'
+
+// 日历文件每隔多少分钟重新读取一次
+const RELOAD_MINUTES = 5
+// 缓存前后多长时间（毫秒）内的日程
+const LOOKBEHIND = 24 * 60 * 60 * 1000
+const LOOKAHEAD = 2 * 24 * 60 * 60 * 1000
+// 工作至少进行了多大比例，才允许为避开会议提前休息
+const MIN_WORK_RATIO = 0.5
+
+// 各日历源的读取结果，error 为最近一次读取失败的原因
+export interface CalendarSource {
+  source: string
+  events: number
+  error?: string
+}
+
+export interface CalendarStatus {
+  sources: CalendarSource[]
+  events: CalendarEvent[]
+}
+
+let events: CalendarEvent[] = []
+let sources: CalendarSource[] = []
+// 已为哪个会议提前开始过休息，避免重复触发
+let earlyBreakFor = ''
+
+// 支持本地文件路径、file:// 地址，以及本机 http 服务提供的 .ics 地址
+async function readSource(source: string): Promise<string> {
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    return response.text()
+  }
+  return readFile(source.startsWith('file://') ? fileURLToPath(source) : source, 'utf-8')
+}
+
+// 重新读取所有日历
+export async function reloadCalendars(): Promise<void> {
+  const now = Date.now()
+  const results = await Promise.all(
+    settings.get('calendars').map(async (source) => {
+      try {
+        const text = await readSource(source)
+        return { source, events: parseCalendar(text, now - LOOKBEHIND, now + LOOKAHEAD) }
+      } catch (error) {
+        console.error('[calendar] 读取日历失败:', source, error)
+        return { source, events: [], error: (error as Error).message }
+      }
+    })
+  )
+  sources = results.map(({ source, events, error }) => ({ source, events: events.length, error }))
+  events = results.flatMap((result) => result.events).sort((a, b) => a.start - b.start)
+}
+
+// 当前正在进行的会议
+function currentEvent(now = Date.now()): CalendarEvent | undefined {
+  return events.find((event) => event.start <= now && now < event.end)
+}
+
+// 各日历源的读取情况，以及接下来 24 小时内的忙碌日程，供界面预览
+export function getCalendarStatus(now = Date.now()): CalendarStatus {
+  return {
+    sources,
+    events: events.filter((event) => event.end > now && event.start < now + LOOKAHEAD / 2)
+  }
+}
+
+// 会议进行中时暂缓休息，会议结束后再开始
+function calendarGuard(): boolean {
+  return !!currentEvent()
+}
+
+// 休息会落在下一个会议中时，若本轮工作已过半，就提前开始休息，让休息恰好在会议开始前结束
+function checkEarlyBreak(info: PhaseInfo): void {
+  if (info.phase !== 'work' || info.state !== 'running' || !settings.get('calendarEarlyBreak')) {
+    return
+  }
+  const now = Date.now()
+  const breakAt = now + info.remainingTime * 1000
+  const next = events.find((event) => event.start > now && event.end > breakAt)
+  if (!next) return
+  const key = `${next.uid}@${next.start}`
+  const breakPhase = Scheduler.getNextBreak()
+  const breakLength =
+    settings.get(breakPhase === 'longBreak' ? 'longBreakDuration' : 'breakDuration') * 1000
+  if (
+    key !== earlyBreakFor &&
+    breakAt + breakLength > next.start &&
+    now + breakLength >= next.start &&
+    info.duration - info.remainingTime >= info.duration * MIN_WORK_RATIO
+  ) {
+    earlyBreakFor = key
+    Scheduler.startBreak('calendar')
+  }
+}
+
+export function watchCalendar(): void {
+  reloadCalendars()
+  Scheduler.addBreakGuard('calendar', calendarGuard)
+  Scheduler.on('tick', checkEarlyBreak)
+  schedule.scheduleJob(`*/${RELOAD_MINUTES} * * * *`, reloadCalendars)
+  settings.on('change', (_, patch) => {
+    if ('calendars' in patch) reloadCalendars()
+  })
+}
@@ -0,0 +1,47 @@
+import { readFile } from 'fs/promises'
+import { homedir } from 'os'
+import { join } from 'path'
+import { run } from './foreground'
+
+// 系统「勿扰模式 / 专注模式」检测，没有统一的系统接口，按平台读取各自的配置，失败时视为未开启
+
+// macOS 12+：专注模式开启时 Assertions.json 中会有 storeAssertionRecords
+async function macDoNotDisturb(): Promise<boolean> {
+  const file = join(homedir(), 'Library/DoNotDisturb/DB/Assertions.json')
+  const data = JSON.parse(await readFile(file, 'utf-8'))
+  return !!data?.data?.[0]?.storeAssertionRecords?.length
+}
+
+// Windows：关闭通知横幅（勿扰）时 NOC_GLOBAL_SETTING_TOASTS_ENABLED 为 0
+async function windowsDoNotDisturb(): Promise<boolean> {
+  const output = await run('reg', [
+    'query',
+    'HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\Notifications\\Settings',
+    '/v',
+    'NOC_GLOBAL_SETTING_TOASTS_ENABLED'
+  ])
+  return /REG_DWORD\s+0x0\b/.test(output)
+}
+
+// Linux（GNOME）：勿扰模式即关闭通知横幅
+async function linuxDoNotDisturb(): Promise<boolean> {
+  const output = await run('gsettings', ['get', 'org.gnome.desktop.notifications', 'show-banners'])
+  return output === 'false'
+}
+
+export async function isDoNotDisturb(): Promise<boolean> {
+  try {
+    switch (process.platform) {
+      case 'darwin':
+        return await macDoNotDisturb()
+      case 'win32':
+        return await windowsDoNotDisturb()
+      case 'linux':
+        return await linuxDoNotDisturb()
+      default:
+        return false
+    }
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,108 @@
+import { execFile } from 'child_process'
+import { readFile } from 'fs/promises'
+
+// 当前处于前台的应用
+export interface ForegroundApp {
+  name: string // 进程名 / 应用名
+  title: string // 窗口标题，获取不到时为空字符串
+}
+
+// 前台应用探测器，可替换为自定义实现（例如测试中的桩）
+export interface ForegroundProvider {
+  getForegroundApp: () => Promise<ForegroundApp | null>
+}
+
+// 执行外部命令并返回去掉首尾空白的输出，超时 3 秒
+export function run(file: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { timeout: 3000, windowsHide: true }, (error, stdout) => {
+      if (error) reject(error)
+      else resolve(stdout.trim())
+    })
+  })
+}
+
+// macOS：通过 System Events 获取最前面的应用（窗口标题需要辅助功能权限，这里不读取）
+const macProvider: ForegroundProvider = {
+  getForegroundApp: async () => {
+    const name = await run('osascript', [
+      '-e',
+      'tell application "System Events" to get name of first application process whose frontmost is true'
+    ])
+    return name ? { name, title: '' } : null
+  }
+}
+
+// Windows：通过 user32 拿到前台窗口所属进程
+const WINDOWS_SCRIPT = `
+Add-Type @"
+using System;
+using System.Runtime.InteropServices;
+public class Fg {
+  [DllImport("user32.dll")] public static extern IntPtr GetForegroundWindow();
+  [DllImport("user32.dll")] public static extern uint GetWindowThreadProcessId(IntPtr h, out uint p);
+}
+"@
+$p = 0
+[void][Fg]::GetWindowThreadProcessId([Fg]::GetForegroundWindow(), [ref]$p)
+$proc = Get-Process -Id $p
+Write-Output $proc.ProcessName
+Write-Output $proc.MainWindowTitle
+`
+
+const windowsProvider: ForegroundProvider = {
+  getForegroundApp: async () => {
+    const output = await run('powershell.exe', [
+      '-NoProfile',
+      '-NonInteractive',
+      '-Command',
+      WINDOWS_SCRIPT
+    ])
+    const [name = '', title = ''] = output.split(/\r?\n/)
+    return name ? { name, title } : null
+  }
+}
+
+// Linux（X11）：依赖 xdotool，未安装或在 Wayland 下获取不到时返回 null
+const linuxProvider: ForegroundProvider = {
+  getForegroundApp: async () => {
+    const pid = await run('xdotool', ['getactivewindow', 'getwindowpid'])
+    const title = await run('xdotool', ['getactivewindow', 'getwindowname']).catch(() => '')
+    const name = (await readFile(`/proc/${pid}/comm`, 'utf-8')).trim()
+    return name ? { name, title } : null
+  }
+}
+
+const nullProvider: ForegroundProvider = {
+  getForegroundApp: async () => null
+}
+
+function defaultProvider(): ForegroundProvider {
+  switch (process.platform) {
+    case 'darwin':
+      return macProvider
+    case 'win32':
+      return windowsProvider
+    case 'linux':
+      return linuxProvider
+    default:
+      return nullProvider
+  }
+}
+
+let provider: ForegroundProvider = defaultProvider()
+
+// 替换前台应用探测器，传入 null 恢复默认实现
+export function setForegroundProvider(next: ForegroundProvider | null): void {
+  provider = next ?? defaultProvider()
+}
+
+// 获取当前前台应用，探测失败时返回 null 而不抛错
+export async function getForegroundApp(): Promise<ForegroundApp | null> {
+  try {
+    return await provider.getForegroundApp()
+  } catch (error) {
+    console.warn('[foreground] 获取前台应用失败:', error)
+    return null
+  }
+}
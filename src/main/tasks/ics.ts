@@ -0,0 +1,439 @@
+// 简易 iCalendar（.ics）解析：只处理判断“忙碌”所需的 VEVENT 字段，
+// 支持 TZID 时区、RRULE 重复规则（DAILY/WEEKLY/MONTHLY/YEARLY）、EXDATE 与 RECURRENCE-ID 例外
+
+// 一次具体的日程，时间为时间戳（毫秒）
+export interface CalendarEvent {
+  uid: string
+  summary: string
+  start: number
+  end: number
+}
+
+// 不含时区的日期时间（年月日时分秒），重复规则在这个层面展开，保证跨夏令时后仍是同一时刻
+interface LocalTime {
+  year: number
+  month: number // 1 - 12
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+interface IcsDate {
+  local: LocalTime
+  zone: string | null // IANA 时区名；null 表示本地时间（floating）
+  utc: boolean
+  allDay: boolean
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+  interval: number
+  count?: number
+  until?: number
+  byDay: { n: number; weekday: number }[] // n 为 0 表示每个该星期几
+  byMonthDay: number[]
+  byMonth: number[]
+}
+
+interface VEvent {
+  uid: string
+  summary: string
+  start: IcsDate
+  end?: IcsDate
+  duration?: number
+  rrule?: RecurrenceRule
+  exdates: number[]
+  recurrenceId?: number
+  busy: boolean
+}
+
+interface Property {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+// 展开重复规则时最多遍历的周期数，防止异常规则卡住主进程
+const MAX_PERIODS = 20000
+
+// 续行以空格或制表符开头，需要拼回上一行
+function unfold(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+}
+
+// NAME;PARAM=VALUE;PARAM="VALUE":CONTENT，引号中的 ; 和 : 不作为分隔符
+function parseProperty(line: string): Property | null {
+  let quoted = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted
+    else if (line[i] === ':' && !quoted) {
+      colon = i
+      break
+    }
+  }
+  if (colon < 0) return null
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) ?? []
+  if (!name) return null
+  const params: Record<string, string> = {}
+  rawParams.forEach((param) => {
+    const index = param.indexOf('=')
+    if (index > 0) {
+      params[param.slice(0, index).toUpperCase()] = param.slice(index + 1).replace(/^"|"$/g, '')
+    }
+  })
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char) => (char.toLowerCase() === 'n' ? '\n' : char))
+}
+
+// 规范化时区名：Outlook、Thunderbird 等会带上前缀（如 /mozilla.org/20050126_1/Europe/Berlin），
+// 取末尾的 IANA 名称；无法识别时退回本地时间
+function normalizeZone(tzid: string | undefined): string | null {
+  if (!tzid) return null
+  const segments = tzid.split('/')
+  const candidates = [tzid, segments.slice(-3).join('/'), segments.slice(-2).join('/')]
+  for (const zone of candidates) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone })
+      return zone
+    } catch {
+      // 不是有效的 IANA 时区
+    }
+  }
+  console.warn('[ics] 无法识别的时区，按本地时间处理:', tzid)
+  return null
+}
+
+function parseDate(value: string, params: Record<string, string>): IcsDate | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) return null
+  const [, year, month, day, hour, minute, second, utc] = match
+  const allDay = params['VALUE'] === 'DATE' || hour === undefined
+  return {
+    local: {
+      year: +year,
+      month: +month,
+      day: +day,
+      hour: allDay ? 0 : +hour,
+      minute: allDay ? 0 : +minute,
+      second: allDay ? 0 : +second
+    },
+    zone: utc || allDay ? null : normalizeZone(params['TZID']),
+    utc: !!utc,
+    allDay
+  }
+}
+
+// 创建 Intl.DateTimeFormat 开销较大，每个时区只创建一次
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function zoneFormatter(zone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(zone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    })
+    formatters.set(zone, formatter)
+  }
+  return formatter
+}
+
+// 时区在某一时刻相对 UTC 的偏移（毫秒）
+function zoneOffset(time: number, zone: string): number {
+  const parts = zoneFormatter(zone).formatToParts(time)
+  const get = (type: string): number => +(parts.find((part) => part.type === type)?.value ?? 0)
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'))
+  return asUtc + get('second') * 1000 - Math.floor(time / 1000) * 1000
+}
+
+function toTimestamp(local: LocalTime, zone: string | null, utc: boolean): number {
+  const { year, month, day, hour, minute, second } = local
+  if (utc) return Date.UTC(year, month - 1, day, hour, minute, second)
+  if (!zone) return new Date(year, month - 1, day, hour, minute, second).getTime()
+  // 先按当前偏移换算，再用换算结果处的偏移校正一次（跨夏令时的情况）
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second)
+  const estimate = guess - zoneOffset(guess, zone)
+  return guess - zoneOffset(estimate, zone)
+}
+
+const dateToTimestamp = (date: IcsDate): number => toTimestamp(date.local, date.zone, date.utc)
+
+// P1DT2H30M、PT45M、-PT15M 等，返回毫秒
+function parseDuration(value: string): number | undefined {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  )
+  if (!match) return undefined
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) => part ?? '0')
+  const total = ((+weeks * 7 + +days) * 86400 + +hours * 3600 + +minutes * 60 + +seconds) * 1000
+  return sign === '-' ? -total : total
+}
+
+function parseRule(value: string): RecurrenceRule | undefined {
+  const parts: Record<string, string> = Object.fromEntries(
+    value.split(';').map((part) => {
+      const [key, val = ''] = part.split('=')
+      return [key.toUpperCase(), val.toUpperCase()]
+    })
+  )
+  const list = (key: string): string[] => (parts[key] ? parts[key].split(',') : [])
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(parts['FREQ'])) {
+    // 按小时、分钟重复的日程很少见，只保留首次
+    return undefined
+  }
+  const until = parts['UNTIL'] ? parseDate(parts['UNTIL'], {}) : null
+  return {
+    freq: parts['FREQ'] as RecurrenceRule['freq'],
+    interval: Math.max(1, parseInt(parts['INTERVAL']) || 1),
+    count: parts['COUNT'] ? parseInt(parts['COUNT']) : undefined,
+    // UNTIL 为日期时包含当天
+    until: until ? dateToTimestamp(until) + (until.allDay ? 86400000 - 1 : 0) : undefined,
+    byDay: list('BYDAY').flatMap((item) => {
+      const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/)
+      return match ? [{ n: parseInt(match[1] ?? '0'), weekday: WEEKDAYS.indexOf(match[2]) }] : []
+    }),
+    byMonthDay: list('BYMONTHDAY')
+      .map(Number)
+      .filter((day) => day && Math.abs(day) <= 31),
+    byMonth: list('BYMONTH')
+      .map(Number)
+      .filter((month) => month >= 1 && month <= 12)
+  }
+}
+
+// 解析 .ics 文本，返回其中的 VEVENT（未展开重复）
+function parseEvents(text: string): VEvent[] {
+  const events: VEvent[] = []
+  let current: Partial<VEvent> | null = null
+  let depth = 0 // VEVENT 内嵌套的组件（如 VALARM）层数
+
+  unfold(text).forEach((line) => {
+    const prop = parseProperty(line)
+    if (!prop) return
+    if (prop.name === 'BEGIN') {
+      if (prop.value.toUpperCase() === 'VEVENT' && !current) {
+        current = { uid: '', summary: '', exdates: [], busy: true }
+      } else if (current) {
+        depth++
+      }
+      return
+    }
+    if (prop.name === 'END') {
+      if (!current) return
+      if (depth > 0) {
+        depth--
+      } else {
+        if (current.start) events.push(current as VEvent)
+        current = null
+      }
+      return
+    }
+    if (!current || depth > 0) return
+
+    switch (prop.name) {
+      case 'UID':
+        current.uid = prop.value
+        break
+      case 'SUMMARY':
+        current.summary = unescapeText(prop.value)
+        break
+      case 'DTSTART':
+        current.start = parseDate(prop.value, prop.params) ?? undefined
+        break
+      case 'DTEND':
+        current.end = parseDate(prop.value, prop.params) ?? undefined
+        break
+      case 'DURATION':
+        current.duration = parseDuration(prop.value)
+        break
+      case 'RRULE':
+        current.rrule = parseRule(prop.value)
+        break
+      case 'EXDATE':
+        prop.value.split(',').forEach((value) => {
+          const date = parseDate(value, prop.params)
+          if (date) current?.exdates?.push(dateToTimestamp(date))
+        })
+        break
+      case 'RECURRENCE-ID': {
+        const date = parseDate(prop.value, prop.params)
+        if (date) current.recurrenceId = dateToTimestamp(date)
+        break
+      }
+      // 标记为“空闲”或已取消的日程不算忙碌
+      case 'TRANSP':
+        if (prop.value.toUpperCase() === 'TRANSPARENT') current.busy = false
+        break
+      case 'STATUS':
+        if (prop.value.toUpperCase() === 'CANCELLED') current.busy = false
+        break
+    }
+  })
+  return events
+}
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month, 0).getDate()
+
+const weekdayOf = (year: number, month: number, day: number): number =>
+  new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+
+// 在年月日层面做加减，返回规范化后的日期
+function shiftDate(local: LocalTime, days: number, months = 0): LocalTime {
+  const date = new Date(Date.UTC(local.year, local.month - 1 + months, local.day + days))
+  return {
+    ...local,
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate()
+  }
+}
+
+// 某月中满足 BYDAY（如 1MO、-1FR、TU）的日期
+function monthDaysByWeekday(year: number, month: number, rule: RecurrenceRule): number[] {
+  const total = daysInMonth(year, month)
+  const days: number[] = []
+  rule.byDay.forEach(({ n, weekday }) => {
+    const matches: number[] = []
+    for (let day = 1; day <= total; day++) {
+      if (weekdayOf(year, month, day) === weekday) matches.push(day)
+    }
+    if (n === 0) days.push(...matches)
+    else {
+      const day = n > 0 ? matches[n - 1] : matches[matches.length + n]
+      if (day) days.push(day)
+    }
+  })
+  return days
+}
+
+// 第 index 个周期内的候选日期（按时间排序，可能早于 DTSTART，由调用方过滤）
+function periodDates(start: LocalTime, rule: RecurrenceRule, index: number): LocalTime[] {
+  const step = index * rule.interval
+  switch (rule.freq) {
+    case 'DAILY': {
+      const date = shiftDate(start, step)
+      const weekday = weekdayOf(date.year, date.month, date.day)
+      if (rule.byDay.length && !rule.byDay.some((item) => item.weekday === weekday)) return []
+      if (rule.byMonth.length && !rule.byMonth.includes(date.month)) return []
+      return [date]
+    }
+    case 'WEEKLY': {
+      // 以周一作为一周的开始
+      const monday = shiftDate(
+        start,
+        step * 7 - ((weekdayOf(start.year, start.month, start.day) + 6) % 7)
+      )
+      const weekdays = rule.byDay.length
+        ? rule.byDay.map((item) => item.weekday)
+        : [weekdayOf(start.year, start.month, start.day)]
+      return Array.from(new Set(weekdays))
+        .map((weekday) => (weekday + 6) % 7)
+        .sort((a, b) => a - b)
+        .map((offset) => shiftDate(monday, offset))
+    }
+    case 'MONTHLY':
+    case 'YEARLY': {
+      const months =
+        rule.freq === 'MONTHLY'
+          ? [shiftDate({ ...start, day: 1 }, 0, step)]
+          : (rule.byMonth.length ? rule.byMonth : [start.month]).map((month) => ({
+              ...start,
+              year: start.year + step,
+              month,
+              day: 1
+            }))
+      return months.flatMap((first) => {
+        const total = daysInMonth(first.year, first.month)
+        let days: number[]
+        if (rule.byDay.length) {
+          days = monthDaysByWeekday(first.year, first.month, rule)
+        } else if (rule.byMonthDay.length) {
+          days = rule.byMonthDay.map((day) => (day > 0 ? day : total + day + 1))
+        } else {
+          days = [start.day]
+        }
+        // 不存在的日期（如 2 月 30 日）跳过
+        return Array.from(new Set(days))
+          .filter((day) => day >= 1 && day <= total)
+          .sort((a, b) => a - b)
+          .map((day) => ({ ...first, day }))
+      })
+    }
+  }
+}
+
+// 按天、按周重复且没有 COUNT 时，直接从 from 之前的一个周期开始展开，不必从 DTSTART 逐个遍历。
+// 多退一天以容纳时区偏移和夏令时，再多退一个周期以容纳每周从周一开始的对齐
+function firstPeriod(rule: RecurrenceRule, first: number, from: number, duration: number): number {
+  if (rule.count !== undefined || (rule.freq !== 'DAILY' && rule.freq !== 'WEEKLY')) return 0
+  const periodDays = (rule.freq === 'DAILY' ? 1 : 7) * rule.interval
+  const elapsedDays = (from - duration - first) / 86400000 - 1
+  return Math.max(0, Math.floor(elapsedDays / periodDays) - 1)
+}
+
+// 展开一个日程在 [from, to) 内的所有发生时间（开始时间戳）
+function occurrences(event: VEvent, from: number, to: number, duration: number): number[] {
+  const first = dateToTimestamp(event.start)
+  const rule = event.rrule
+  if (!rule) return first < to && first + duration > from ? [first] : []
+
+  const result: number[] = []
+  let count = 0
+  const skipped = firstPeriod(rule, first, from, duration)
+  for (let index = skipped; index < skipped + MAX_PERIODS; index++) {
+    const dates = periodDates(event.start.local, rule, index)
+    for (const local of dates) {
+      const time = toTimestamp(local, event.start.zone, event.start.utc)
+      if (time < first) continue
+      if ((rule.until !== undefined && time > rule.until) || time >= to) return result
+      if (rule.count !== undefined && ++count > rule.count) return result
+      if (time + duration > from && !event.exdates.includes(time)) result.push(time)
+    }
+  }
+  return result
+}
+
+function eventDuration(event: VEvent): number {
+  if (event.end) return Math.max(0, dateToTimestamp(event.end) - dateToTimestamp(event.start))
+  if (event.duration !== undefined) return Math.max(0, event.duration)
+  return event.start.allDay ? 86400000 : 0
+}
+
+// 解析 .ics 文本，返回 [from, to) 内与之重叠的忙碌日程，按开始时间排序。
+// 全天日程通常是假期、生日等提醒，不视为忙碌
+export function parseCalendar(text: string, from: number, to: number): CalendarEvent[] {
+  const events = parseEvents(text)
+  // 同一 UID 下带 RECURRENCE-ID 的条目是对某一次重复的修改，替换原本的那一次
+  const overridden = new Map<string, number[]>()
+  events.forEach((event) => {
+    if (event.recurrenceId !== undefined) {
+      overridden.set(event.uid, [...(overridden.get(event.uid) ?? []), event.recurrenceId])
+    }
+  })
+
+  const result: CalendarEvent[] = []
+  events.forEach((event) => {
+    if (!event.busy || event.start.allDay) return
+    const duration = eventDuration(event)
+    if (!duration) return
+    const skip = event.recurrenceId === undefined ? (overridden.get(event.uid) ?? []) : []
+    occurrences(event, from, to, duration)
+      .filter((start) => !skip.includes(start))
+      .forEach((start) => {
+        result.push({ uid: event.uid, summary: event.summary, start, end: start + duration })
+      })
+  })
+  return result.sort((a, b) => a.start - b.start)
+}
@@ -0,0 +1,44 @@
+import { powerMonitor } from 'electron'
+import schedule, { Job } from 'node-schedule'
+import Scheduler from './scheduler'
+import settings from '../store/settings'
+import { holdUntilWorkHours } from './workHours'
+
+let job: Job | null = null
+// 开始空闲的时间戳，0 表示用户在电脑前
+let idleSince = 0
+
+function check(): void {
+  const threshold = settings.get('idleThreshold')
+  const idleTime = powerMonitor.getSystemIdleTime()
+
+  if (!idleSince) {
+    // 只在工作计时中检测，休息阶段本就不需要用户操作
+    if (threshold > 0 && idleTime >= threshold && Scheduler.getState() === 'running') {
+      idleSince = Date.now() - idleTime * 1000
+      Scheduler.pause()
+    }
+    return
+  }
+
+  if (threshold > 0 && idleTime >= threshold) return
+  const since = idleSince
+  const idleDuration = (Date.now() - since) / 1000
+  idleSince = 0
+  // 期间被用户或其他逻辑改变了状态，则不再干预
+  if (Scheduler.getState() !== 'paused') return
+  if (holdUntilWorkHours()) return
+
+  // 离开时间足够长，记为一次完成的休息，重新开始工作计时
+  if (idleDuration >= settings.get('idleResetThreshold')) {
+    Scheduler.completeAwayBreak(since, 'idle')
+  } else {
+    Scheduler.resume()
+  }
+}
+
+// 每 5 秒检查一次系统空闲时间，需在 app ready 之后调用
+export function watchIdle(): void {
+  if (job) return
+  job = schedule.scheduleJob('*/5 * * * * *', check)
+}
@@ -0,0 +1,54 @@
+import { powerMonitor } from 'electron'
+import Scheduler from './scheduler'
+import settings from '../store/settings'
+import { holdUntilWorkHours } from './workHours'
+
+// 离开（休眠或锁屏）开始的时间戳，0 表示当前不在离开状态
+let awaySince = 0
+// 是否由本模块暂停了计时，恢复时只继续自己暂停的计时
+let pausedByAway = false
+
+function onAway(): void {
+  if (awaySince) return
+  awaySince = Date.now()
+
+  const policy = settings.get('sleepPolicy')
+  if (policy === 'continue') return
+  const state = Scheduler.getState()
+  if (state === 'running' || state === 'break') {
+    Scheduler.pause()
+    pausedByAway = true
+  }
+}
+
+// 先锁屏再休眠时 onAway 已提前返回，但每次休眠都要告知 Scheduler，
+// 否则唤醒后的时间跳变会被当作修改系统时间，休眠时长计入工作计时
+function onSuspend(): void {
+  Scheduler.markSuspended()
+  onAway()
+}
+
+function onBack(): void {
+  if (!awaySince) return
+  const since = awaySince
+  const awayTime = (Date.now() - since) / 1000
+  awaySince = 0
+  if (!pausedByAway) return
+  pausedByAway = false
+  if (Scheduler.getState() !== 'paused' || holdUntilWorkHours()) return
+
+  // 'break' 策略下离开时间足够一次短休息，则记为一次完成的休息，重新开始工作计时
+  if (settings.get('sleepPolicy') === 'break' && awayTime >= settings.get('breakDuration')) {
+    Scheduler.completeAwayBreak(since, 'sleep')
+  } else {
+    Scheduler.resume()
+  }
+}
+
+// 监听系统休眠/唤醒与锁屏/解锁，需在 app ready 之后调用
+export function watchPower(): void {
+  powerMonitor.on('suspend', onSuspend)
+  powerMonitor.on('lock-screen', onAway)
+  powerMonitor.on('resume', onBack)
+  powerMonitor.on('unlock-screen', onBack)
+}
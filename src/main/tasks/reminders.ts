@@ -0,0 +1,96 @@
+import { RecurrenceRule } from 'node-schedule'
+import Scheduler from './scheduler'
+import settings, { Reminder } from '../store/settings'
+
+// 提醒及其运行状态：next 为下次触发时间，invalid 表示规则无法解析（如错误的 cron 表达式）
+export interface ReminderInfo extends Reminder {
+  next: number | null
+  invalid: boolean
+}
+
+let onFire: ((reminder: Reminder) => void) | undefined
+const invalid = new Set<string>()
+
+// 安静模式中不打扰，到点的提醒直接略过
+function fire(reminder: Reminder): void {
+  if (settings.get('quietUntil') > Date.now()) return
+  onFire?.(reminder)
+}
+
+function schedule(reminder: Reminder): void {
+  const { id, rule } = reminder
+  let ok: boolean
+  switch (rule.type) {
+    case 'interval':
+      // 间隔从启用（或应用启动）时开始计算，每次触发后再安排下一次
+      ok = Scheduler.scheduleReminder(id, new Date(Date.now() + rule.minutes * 60 * 1000), () => {
+        fire(reminder)
+        schedule(reminder)
+      })
+      break
+    case 'time': {
+      const [hour, minute] = rule.time.split(':').map(Number)
+      const recurrence = new RecurrenceRule()
+      recurrence.dayOfWeek = rule.days
+      recurrence.hour = hour
+      recurrence.minute = minute
+      recurrence.second = 0
+      ok = Scheduler.scheduleReminder(id, recurrence, () => fire(reminder))
+      break
+    }
+    case 'cron':
+      try {
+        ok = Scheduler.scheduleReminder(id, rule.cron.trim(), () => fire(reminder))
+      } catch {
+        ok = false
+      }
+      break
+  }
+  if (ok) {
+    invalid.delete(id)
+  } else {
+    console.warn('[reminders] 无法解析提醒规则:', reminder.name, rule)
+    invalid.add(id)
+  }
+}
+
+// 按配置重新安排所有提醒；未修改的间隔提醒保留原有进度
+function sync(previous: Reminder[] = []): void {
+  const reminders = settings.get('reminders')
+  const ids = new Set(reminders.map((reminder) => reminder.id))
+  Scheduler.getReminderIds().forEach((id) => {
+    if (!ids.has(id)) Scheduler.cancelReminder(id)
+  })
+  reminders.forEach((reminder) => {
+    if (!reminder.enabled) {
+      Scheduler.cancelReminder(reminder.id)
+      invalid.delete(reminder.id)
+      return
+    }
+    const old = previous.find((item) => item.id === reminder.id)
+    const running = Scheduler.getReminderNext(reminder.id) !== null
+    if (!running || !old || JSON.stringify(old) !== JSON.stringify(reminder)) {
+      schedule(reminder)
+    }
+  })
+}
+
+export function getReminders(): ReminderInfo[] {
+  return settings.get('reminders').map((reminder) => ({
+    ...reminder,
+    next: Scheduler.getReminderNext(reminder.id),
+    invalid: invalid.has(reminder.id)
+  }))
+}
+
+export function watchReminders(listener: (reminder: Reminder) => void): void {
+  onFire = listener
+  let previous = settings.get('reminders')
+  sync()
+  settings.on('change', (_, patch) => {
+    if ('reminders' in patch) {
+      sync(previous)
+      previous = settings.get('reminders')
+    }
+  })
+}
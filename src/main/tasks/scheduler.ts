@@ -1,20 +1,109 @@
-import schedule, { Job } from 'node-schedule'
+import { EventEmitter } from 'events'
+import schedule, { Job, RecurrenceRule } from 'node-schedule'
+import settings, { Enforcement, SettingsPatch } from '../store/settings'
+import type { SessionOutcome, SessionRecord } from '../store/history'
 
-class Scheduler {
+// 每隔多少秒把剩余时间写入磁盘
+const PERSIST_INTERVAL = 5
+// 两次 tick 之间墙上时间与单调时间的偏差超过该值（毫秒）时视为系统时间被修改
+const CLOCK_DRIFT_TOLERANCE = 2000
+// 休息被推迟后，每隔多少毫秒重新检查一次是否可以开始休息
+const GUARD_RECHECK_INTERVAL = 5000
+
+// 番茄钟阶段：工作 → 短休息 → 工作 … → 每 N 轮一次长休息
+export type Phase = 'work' | 'shortBreak' | 'longBreak'
+
+// 计时状态：工作计时中 / 已暂停 / 未开始或已停止 / 休息计时中
+export type TimerState = 'running' | 'paused' | 'idle' | 'break'
+
+export interface PhaseInfo {
+  phase: Phase
+  state: TimerState
+  cycle: number // 已完成的工作轮数
+  duration: number // 当前阶段总时长（秒）
+  remainingTime: number // 当前阶段剩余时间（秒）
+  skipNext: boolean // 是否跳过下一次休息
+  snoozes: number // 本次休息已连续推迟的次数
+  deferredBy: string | null // 暂缓本轮休息的 BreakGuard 名称（如 whitelist、calendar）
+}
+
+export const isBreakPhase = (phase: Phase): boolean => phase !== 'work'
+
+// 工作结束、即将进入休息时调用，返回 true 表示暂缓休息（如白名单应用正在前台）
+export type BreakGuard = () => boolean | Promise<boolean>
+
+/**
+ * 事件：
+ * - tick (info: PhaseInfo) 每秒一次
+ * - state-change (info: PhaseInfo) 计时状态变化（开始、暂停、继续、停止）
+ * - phase-change (info: PhaseInfo) 阶段切换
+ * - finish (phase: Phase) 某个阶段倒计时结束
+ * - break-deferred (info: PhaseInfo) 工作已结束，但休息被 BreakGuard 暂缓
+ * - break-warning (info: PhaseInfo, seconds: number) 距离休息还剩 seconds 秒（见 breakWarnings 配置）
+ * - session (record: Omit<SessionRecord, 'id'>) 一段工作或休息结束，用于记录历史
+ */
+class Scheduler extends EventEmitter {
   private jobs: Record<string, Job | undefined> = {}
-  private remainingTime: number = 1 * 60 // 默认20分钟倒计时
-  private defaultDuration: number = 20 * 60 // 默认倒计时时间（秒）
+  private defaultDuration: number = settings.get('workDuration') // 默认倒计时时间（秒）
+  private remainingTime: number = this.defaultDuration
+  private phase: Phase = 'work'
+  private cycle = 0
+  private paused = false
+  private skipNext = false // 下次工作结束时不进入休息
+  private endAt = 0 // 计时中的目标结束时间戳（毫秒），剩余时间据此计算
+  private lastTick = { wall: 0, mono: 0 } // 上一次 tick 的墙上时间与单调时间
+  private suspendedSinceTick = false // 上一次 tick 之后系统是否休眠过
+  private lastPersistAt = 0
+  private breakGuards: { name: string; guard: BreakGuard }[] = []
+  private guardPending = false // 正在等待 BreakGuard 的结果
+  private nextGuardCheck = 0
+  private deferredBy: string | null = null // 本轮休息被哪个 BreakGuard 暂缓
+  private snoozes = 0 // 连续推迟次数，休息结束或被跳过后清零（休息中推迟不清零）
+  // 当前阶段（一段工作或休息）的开始时间与计划时长，start 为 0 表示已记录结束
+  private session: {
+    start: number
+    planned: number
+    postponed: number
+    enforcement?: Enforcement
+  } = { start: 0, planned: 0, postponed: 0 }
+  private onFinish?: () => void // 工作阶段结束（进入休息）时的回调
 
   constructor() {
+    super()
+    settings.on('change', (_, patch) => this.applySettings(patch))
+    // 恢复上次退出时未完成的倒计时；休息阶段中途退出的视为已休息
+    const snapshot = settings.get('countdown')
+    if (snapshot) {
+      this.cycle = snapshot.cycle ?? 0
+      if ((snapshot.phase ?? 'work') === 'work' && snapshot.remainingTime > 0) {
+        this.remainingTime = Math.min(snapshot.remainingTime, this.defaultDuration)
+        this.paused = !snapshot.running
+      }
+    }
+    this.session = { start: Date.now(), planned: this.remainingTime, postponed: 0 }
     // this.startCountdown() // 自动启动倒计时
   }
 
+  // 应用启动时调用：上次退出时处于暂停状态则保持暂停，否则自动开始
+  public restore(onFinish?: () => void): void {
+    if (onFinish) this.onFinish = onFinish
+    if (this.paused) {
+      this.emit('state-change', this.getPhase())
+    } else {
+      this.startCountdown()
+    }
+  }
+
   // 开始倒计时
   public startCountdown(onFinish?: () => void): void {
+    if (onFinish) this.onFinish = onFinish
     if (this.jobs['countdown']) {
       console.warn('A countdown is already running!')
       return
     }
+    this.paused = false
+    this.endAt = Date.now() + this.remainingTime * 1000
+    this.lastTick = { wall: Date.now(), mono: performance.now() }
 
     /**
         *    *    *    *    *    *
@@ -28,42 +117,469 @@ class Scheduler {
         └──────────────────────── 秒 (0 - 59)
      * */
 
+    // 每秒按目标结束时间重新计算剩余时间，错过的 tick（休眠、事件循环阻塞）不会拉长计时
     this.jobs['countdown'] = schedule.scheduleJob('* * * * * *', () => {
-      this.remainingTime--
+      this.correctClockDrift()
+      const previous = this.remainingTime
+      this.remainingTime = this.computeRemaining()
+      this.checkBreakWarning(previous)
 
       if (this.remainingTime <= 0) {
-        this.stopCountdown()
-
-        if (onFinish) onFinish()
+        if (this.phase === 'work' && this.breakGuards.length) {
+          this.checkBreakGuards()
+          this.emit('tick', this.getPhase())
+        } else {
+          this.finishPhase()
+        }
+        return
+      }
+      if (Date.now() - this.lastPersistAt >= PERSIST_INTERVAL * 1000) {
+        this.persist()
       }
+      this.emit('tick', this.getPhase())
     })
+    this.persist()
+    this.emit('state-change', this.getPhase())
   }
 
-  // 停止倒计时
+  // 停止倒计时；严格模式下休息开始一段时间内不允许
   public stopCountdown(): void {
-    if (this.jobs['countdown']) {
-      this.jobs['countdown'].cancel()
-      delete this.jobs['countdown']
-    }
+    if (this.isBreakLocked()) return
+    this.clearCountdown()
+  }
+
+  // 暂停倒计时，保留剩余时间；严格模式下休息开始一段时间内不允许
+  public pause(): void {
+    if (this.isBreakLocked() || !this.cancelJob()) return
+    this.paused = true
+    this.persist()
+    this.emit('state-change', this.getPhase())
+  }
+
+  // 从暂停（或停止）处继续倒计时
+  public resume(): void {
+    if (this.jobs['countdown']) return
+    this.startCountdown()
+  }
+
+  // 注册休息前的检查，任一检查返回 true 即暂缓休息；name 用于告知界面暂缓的原因
+  public addBreakGuard(name: string, guard: BreakGuard): void {
+    this.breakGuards.push({ name, guard })
+  }
+
+  // 自定义提醒与休息倒计时共用 jobs，key 为 reminder:<id>；规则无法解析时返回 false
+  public scheduleReminder(
+    id: string,
+    rule: string | RecurrenceRule | Date,
+    run: () => void
+  ): boolean {
+    this.cancelReminder(id)
+    const job = schedule.scheduleJob(rule, run)
+    if (!job) return false
+    this.jobs[`reminder:${id}`] = job
+    return true
+  }
+
+  public cancelReminder(id: string): void {
+    this.jobs[`reminder:${id}`]?.cancel()
+    delete this.jobs[`reminder:${id}`]
+  }
+
+  // 所有提醒任务的 id
+  public getReminderIds(): string[] {
+    return Object.keys(this.jobs)
+      .filter((key) => key.startsWith('reminder:') && this.jobs[key])
+      .map((key) => key.slice('reminder:'.length))
   }
 
-  // 重置倒计时
+  // 提醒下次触发的时间戳，没有任务时返回 null
+  public getReminderNext(id: string): number | null {
+    const next = this.jobs[`reminder:${id}`]?.nextInvocation()
+    return next ? next.getTime() : null
+  }
+
+  // 系统即将休眠时调用，使下一次 tick 把时间跳变视为休眠而非修改系统时间
+  public markSuspended(): void {
+    this.suspendedSinceTick = true
+  }
+
+  // 获取计时状态
+  public getState(): TimerState {
+    if (this.paused) return 'paused'
+    if (!this.jobs['countdown']) return 'idle'
+    return isBreakPhase(this.phase) ? 'break' : 'running'
+  }
+
+  // 重置倒计时：回到工作阶段并从完整时长开始；严格模式下休息开始一段时间内不允许
   public resetCountdown(onFinish?: () => void): void {
-    this.stopCountdown()
-    this.remainingTime = this.defaultDuration
+    if (this.isBreakLocked()) return
+    this.clearCountdown()
+    this.endSession(isBreakPhase(this.phase) ? 'dismissed' : 'interrupted', 'reset')
+    this.enterPhase('work')
     this.startCountdown(onFinish)
   }
 
+  // 提前结束休息（如进入非工作时间）：回到工作阶段并保持暂停，遮罩随阶段切换收起
+  public endBreak(via: string): void {
+    if (!isBreakPhase(this.phase)) return
+    this.clearCountdown()
+    this.endSession('interrupted', via)
+    this.snoozes = 0
+    this.enterPhase('work')
+    this.paused = true
+    this.persist()
+    this.emit('state-change', this.getPhase())
+  }
+
+  // 离开（休眠、锁屏或空闲）足够久，视为已自然休息：记录一次完成的休息，再从完整时长开始工作
+  // since 为开始离开的时间戳，via 记录离开方式（如 sleep、idle）
+  public completeAwayBreak(since: number, via: string): void {
+    this.clearCountdown()
+    if (isBreakPhase(this.phase)) {
+      // 休息中离开，本次休息按完成记录
+      this.remainingTime = 0
+      this.endSession('completed', via)
+    } else {
+      this.endSession('interrupted', via)
+      const phase = this.getNextBreak()
+      const now = Date.now()
+      this.emit('session', {
+        phase,
+        start: since,
+        end: now,
+        planned: this.getPhaseDuration(phase),
+        actual: Math.round((now - since) / 1000),
+        outcome: 'completed',
+        via,
+        enforcement: settings.get('enforcement')
+      })
+      this.cycle++
+      // 已经休息过，不必再跳过下一次休息
+      this.skipNext = false
+    }
+    this.snoozes = 0
+    this.enterPhase('work')
+    this.startCountdown()
+  }
+
   // 获取剩余时间
   public getRemainingTime(): number {
     return this.remainingTime
   }
 
+  // 获取当前阶段信息
+  public getPhase(): PhaseInfo {
+    return {
+      phase: this.phase,
+      state: this.getState(),
+      cycle: this.cycle,
+      duration: this.getPhaseDuration(this.phase),
+      remainingTime: this.remainingTime,
+      skipNext: this.skipNext,
+      snoozes: this.snoozes,
+      deferredBy: this.deferredBy
+    }
+  }
+
   // 设置倒计时时间
   public setDuration(seconds: number, onFinish?: () => void): void {
     this.defaultDuration = seconds
+    settings.set({ workDuration: seconds })
     this.resetCountdown(onFinish)
   }
+
+  // 立即进入休息，本轮工作计为完成；via 记录触发方式（如 manual、calendar）
+  public startBreak(via = 'manual'): void {
+    if (isBreakPhase(this.phase)) return
+    // 主动要求休息时不受“跳过下一次休息”影响
+    this.skipNext = false
+    this.clearCountdown()
+    this.endSession('completed', via)
+    this.remainingTime = 0
+    this.advance()
+  }
+
+  // 本轮工作结束后将进入的休息类型
+  public getNextBreak(): Phase {
+    const interval = settings.get('longBreakInterval')
+    return interval > 0 && (this.cycle + 1) % interval === 0 ? 'longBreak' : 'shortBreak'
+  }
+
+  // 严格模式下休息开始后 strictSkipDelay 秒内，不允许跳过、推迟、暂停、停止或重置
+  public isBreakLocked(): boolean {
+    if (!isBreakPhase(this.phase) || settings.get('enforcement') !== 'strict') return false
+    const elapsed = this.getPhaseDuration(this.phase) - this.remainingTime
+    return elapsed < settings.get('strictSkipDelay')
+  }
+
+  // 当前休息能否跳过：严格模式下休息开始一段时间后才允许
+  public canSkipBreak(): boolean {
+    if (!isBreakPhase(this.phase) || !settings.get('allowSkip')) return false
+    return !this.isBreakLocked()
+  }
+
+  // 跳过当前休息，直接开始下一轮工作；via 记录跳过方式（如 escape、overlay）
+  public skipBreak(via?: string): void {
+    if (!this.canSkipBreak()) return
+    this.endSession('dismissed', via)
+    this.snoozes = 0
+    this.resetCountdown()
+  }
+
+  // 切换是否跳过下一次休息
+  public setSkipNextBreak(skip: boolean): void {
+    if (skip && !settings.get('allowSkip')) return
+    this.skipNext = skip
+    this.emit('state-change', this.getPhase())
+  }
+
+  public isSkippingNextBreak(): boolean {
+    return this.skipNext
+  }
+
+  // 能否推迟休息：连续推迟次数有上限，严格模式下休息中推迟与跳过受同样的限制
+  public canPostpone(): boolean {
+    if (!settings.get('allowPostpone')) return false
+    const max = settings.get('maxSnoozes')
+    if (max > 0 && this.snoozes >= max) return false
+    if (isBreakPhase(this.phase) && settings.get('enforcement') === 'strict') {
+      return this.canSkipBreak()
+    }
+    return true
+  }
+
+  // 推迟休息：工作中则延长本轮工作，休息中则结束休息并在指定时间后再次休息
+  public postpone(seconds: number): void {
+    if (!this.canPostpone()) return
+    this.snoozes++
+    if (isBreakPhase(this.phase)) {
+      this.clearCountdown()
+      this.endSession('postponed')
+      // 本次休息还未进行，退回轮次，推迟结束后仍是同一类型的休息
+      this.cycle = Math.max(0, this.cycle - 1)
+      this.enterPhase('work')
+      this.remainingTime = seconds
+      this.session.planned = seconds
+      this.startCountdown()
+      return
+    }
+    this.session.planned += seconds
+    this.session.postponed++
+    // 休息被暂缓时目标结束时间已过去，从当前时间起算
+    this.deferredBy = null
+    this.nextGuardCheck = 0
+    if (this.jobs['countdown']) {
+      this.endAt = Math.max(this.endAt, Date.now()) + seconds * 1000
+      this.remainingTime = this.computeRemaining()
+    } else {
+      this.remainingTime += seconds
+    }
+    this.persist()
+    this.emit('state-change', this.getPhase())
+  }
+
+  // 保存倒计时快照，便于重启后继续
+  public persist(): void {
+    if (this.jobs['countdown']) {
+      this.remainingTime = this.computeRemaining()
+    }
+    if (this.remainingTime <= 0) return
+    this.lastPersistAt = Date.now()
+    settings.set({
+      countdown: {
+        remainingTime: this.remainingTime,
+        running: !!this.jobs['countdown'],
+        phase: this.phase,
+        cycle: this.cycle,
+        savedAt: Date.now()
+      }
+    })
+  }
+
+  // 停止计时任务并清除暂停状态，供内部切换阶段使用，不受严格模式限制
+  private clearCountdown(): void {
+    if (this.cancelJob() || this.paused) {
+      this.paused = false
+      this.persist()
+      this.emit('state-change', this.getPhase())
+    }
+  }
+
+  // 取消计时任务，返回是否确实有任务在运行
+  private cancelJob(): boolean {
+    const job = this.jobs['countdown']
+    if (!job) return false
+    this.remainingTime = this.computeRemaining()
+    job.cancel()
+    delete this.jobs['countdown']
+    return true
+  }
+
+  // 时长配置修改后立即生效：当前阶段剩余时间不超过新的时长
+  private applySettings(patch: SettingsPatch): void {
+    if (patch.allowSkip === false) {
+      this.skipNext = false
+    }
+    if (patch.workDuration !== undefined) {
+      this.defaultDuration = patch.workDuration
+    }
+    if (!('workDuration' in patch || 'breakDuration' in patch || 'longBreakDuration' in patch)) {
+      return
+    }
+    const duration = this.getPhaseDuration(this.phase)
+    if (this.remainingTime <= duration) return
+    if (this.jobs['countdown']) {
+      this.endAt = Date.now() + duration * 1000
+    }
+    this.remainingTime = duration
+    this.persist()
+    this.emit('state-change', this.getPhase())
+  }
+
+  // 结束当前阶段的记录，同一阶段只记录一次
+  private endSession(outcome: SessionOutcome, via?: string): void {
+    if (!this.session.start) return
+    const { start, planned, postponed, enforcement } = this.session
+    const record: Omit<SessionRecord, 'id'> = {
+      phase: this.phase,
+      start,
+      end: Date.now(),
+      planned,
+      actual: Math.max(0, planned - this.remainingTime),
+      outcome
+    }
+    if (via) record.via = via
+    if (postponed) record.postponed = postponed
+    if (enforcement) record.enforcement = enforcement
+    this.session.start = 0
+    this.emit('session', record)
+  }
+
+  private computeRemaining(): number {
+    return Math.max(0, Math.round((this.endAt - Date.now()) / 1000))
+  }
+
+  // 工作阶段剩余时间越过 breakWarnings 中的某个时间点时发出提醒，每个时间点只提醒一次
+  private checkBreakWarning(previous: number): void {
+    if (this.phase !== 'work' || this.skipNext || this.remainingTime <= 0) return
+    const crossed = settings
+      .get('breakWarnings')
+      .filter((seconds) => previous > seconds && this.remainingTime <= seconds)
+    if (crossed.length) {
+      this.emit('break-warning', this.getPhase(), Math.min(...crossed))
+    }
+  }
+
+  // 墙上时间与单调时间不一致且期间没有休眠，说明系统时间被修改，平移目标结束时间
+  private correctClockDrift(): void {
+    const wall = Date.now()
+    const mono = performance.now()
+    const drift = wall - this.lastTick.wall - (mono - this.lastTick.mono)
+    if (Math.abs(drift) > CLOCK_DRIFT_TOLERANCE && !this.suspendedSinceTick) {
+      this.endAt += drift
+    }
+    this.lastTick = { wall, mono }
+    this.suspendedSinceTick = false
+  }
+
+  private finishPhase(): void {
+    this.clearCountdown()
+    this.endSession('completed')
+    if (isBreakPhase(this.phase)) this.snoozes = 0
+    this.emit('finish', this.phase)
+    this.advance()
+  }
+
+  // 工作计时已到，询问各 BreakGuard 是否可以开始休息；被暂缓时保持计时，稍后再问
+  private async checkBreakGuards(): Promise<void> {
+    if (this.guardPending || Date.now() < this.nextGuardCheck) return
+    this.guardPending = true
+    try {
+      const results = await Promise.all(
+        this.breakGuards.map(({ guard }) =>
+          Promise.resolve()
+            .then(guard)
+            .catch((error) => {
+              console.error('[scheduler] BreakGuard 执行失败:', error)
+              return false
+            })
+        )
+      )
+      // 等待期间状态可能已被改变（暂停、推迟、手动休息等）
+      if (!this.jobs['countdown'] || this.phase !== 'work' || this.computeRemaining() > 0) return
+      const index = results.findIndex(Boolean)
+      if (index >= 0) {
+        this.nextGuardCheck = Date.now() + GUARD_RECHECK_INTERVAL
+        const name = this.breakGuards[index].name
+        if (this.deferredBy !== name) {
+          this.deferredBy = name
+          this.emit('break-deferred', this.getPhase())
+        }
+        return
+      }
+      this.finishPhase()
+    } finally {
+      this.guardPending = false
+    }
+  }
+
+  // 当前阶段结束，切换到下一阶段并继续计时
+  private advance(): void {
+    if (this.phase === 'work' && this.skipNext) {
+      // 跳过本次休息，直接开始下一轮工作
+      this.skipNext = false
+      this.snoozes = 0
+      const now = Date.now()
+      const planned = this.getPhaseDuration('shortBreak')
+      this.emit('session', {
+        phase: 'shortBreak',
+        start: now,
+        end: now,
+        planned,
+        actual: 0,
+        outcome: 'skipped',
+        enforcement: settings.get('enforcement')
+      })
+      this.enterPhase('work')
+      this.startCountdown()
+    } else if (this.phase === 'work') {
+      const next = this.getNextBreak()
+      this.cycle++
+      this.enterPhase(next)
+      this.startCountdown()
+      if (this.onFinish) this.onFinish()
+    } else {
+      this.enterPhase('work')
+      this.startCountdown()
+    }
+  }
+
+  private enterPhase(phase: Phase): void {
+    const changed = phase !== this.phase
+    this.phase = phase
+    this.deferredBy = null
+    this.nextGuardCheck = 0
+    this.remainingTime = this.getPhaseDuration(phase)
+    this.session = { start: Date.now(), planned: this.remainingTime, postponed: 0 }
+    if (isBreakPhase(phase)) {
+      // 记录休息开始时的强制程度，中途修改设置不影响本次记录
+      this.session.enforcement = settings.get('enforcement')
+    }
+    if (changed) {
+      this.emit('phase-change', this.getPhase())
+    }
+  }
+
+  private getPhaseDuration(phase: Phase): number {
+    switch (phase) {
+      case 'shortBreak':
+        return settings.get('breakDuration')
+      case 'longBreak':
+        return settings.get('longBreakDuration')
+      default:
+        return this.defaultDuration
+    }
+  }
 }
 
 export default new Scheduler()
@@ -0,0 +1,46 @@
+import Scheduler from './scheduler'
+import { ForegroundApp, getForegroundApp } from './foreground'
+import settings from '../store/settings'
+
+// 本轮休息开始被暂缓的时间戳，0 表示未暂缓
+let deferredSince = 0
+
+// 白名单条目不区分大小写，匹配进程名或窗口标题的一部分
+export function matchWhitelist(app: ForegroundApp, whitelist: string[]): string | null {
+  const name = app.name.toLowerCase()
+  const title = app.title.toLowerCase()
+  const entry = whitelist.find((item) => {
+    const keyword = item.trim().toLowerCase()
+    return keyword && (name.includes(keyword) || title.includes(keyword))
+  })
+  return entry ?? null
+}
+
+// 白名单应用在前台时暂缓休息，直到它失去焦点或超过最长暂缓时间
+async function whitelistGuard(): Promise<boolean> {
+  const whitelist = settings.get('whitelist')
+  if (!whitelist.length) return false
+
+  const app = await getForegroundApp()
+  if (!app || !matchWhitelist(app, whitelist)) {
+    deferredSince = 0
+    return false
+  }
+
+  if (!deferredSince) {
+    deferredSince = Date.now()
+  }
+  if (Date.now() - deferredSince >= settings.get('whitelistMaxDeferral') * 1000) {
+    deferredSince = 0
+    return false
+  }
+  return true
+}
+
+export function watchWhitelist(): void {
+  Scheduler.addBreakGuard('whitelist', whitelistGuard)
+  // 阶段切换后重新计算暂缓时长
+  Scheduler.on('phase-change', () => {
+    deferredSince = 0
+  })
+}
@@ -0,0 +1,139 @@
+import schedule, { Job, RecurrenceRule } from 'node-schedule'
+import Scheduler, { isBreakPhase, PhaseInfo } from './scheduler'
+import settings, { SchedulePeriod } from '../store/settings'
+
+// 当前是否处于非工作时间，until 为预计恢复计时的时间戳（找不到时为 null）
+export interface OffHoursInfo {
+  off: boolean
+  reason: 'schedule' | 'quiet' | null
+  until: number | null
+}
+
+let jobs: Job[] = []
+// 计时是否由工作时间表暂停，只恢复由这里暂停的计时，不影响用户手动暂停
+let pausedBySchedule = false
+let onChange: ((info: OffHoursInfo) => void) | undefined
+
+function parseTime(time: string): [number, number] {
+  const [hour, minute] = time.split(':').map(Number)
+  return [hour, minute]
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = parseTime(time)
+  return hour * 60 + minute
+}
+
+function inPeriods(date: Date, periods: SchedulePeriod[]): boolean {
+  const minutes = date.getHours() * 60 + date.getMinutes()
+  return periods.some(
+    (period) =>
+      period.days.includes(date.getDay()) &&
+      minutes >= toMinutes(period.start) &&
+      minutes < toMinutes(period.end)
+  )
+}
+
+// 下一次进入工作时间的时间点，一周内都没有时返回 null
+function nextStart(from: Date, periods: SchedulePeriod[]): number | null {
+  for (let offset = 0; offset <= 7; offset++) {
+    const starts = periods
+      .map((period) => {
+        const date = new Date(from)
+        date.setDate(date.getDate() + offset)
+        if (!period.days.includes(date.getDay())) return 0
+        date.setHours(...parseTime(period.start), 0, 0)
+        return date.getTime()
+      })
+      .filter((time) => time > from.getTime())
+    if (starts.length) return Math.min(...starts)
+  }
+  return null
+}
+
+export function getOffHours(now = new Date()): OffHoursInfo {
+  const quietUntil = settings.get('quietUntil')
+  if (quietUntil > now.getTime()) {
+    return { off: true, reason: 'quiet', until: quietUntil }
+  }
+  const periods = settings.get('schedulePeriods')
+  if (settings.get('scheduleEnabled') && periods.length && !inPeriods(now, periods)) {
+    return { off: true, reason: 'schedule', until: nextStart(now, periods) }
+  }
+  return { off: false, reason: null, until: null }
+}
+
+// 按当前时间暂停或恢复计时，并通知各窗口
+function sync(): void {
+  const info = getOffHours()
+  const state = Scheduler.getState()
+  if (info.off) {
+    if (state === 'break') {
+      // 休息中进入非工作时间，直接结束休息，不留下停住的遮罩
+      Scheduler.endBreak('schedule')
+      pausedBySchedule = true
+    } else if (state === 'running') {
+      Scheduler.pause()
+      pausedBySchedule = true
+    }
+  } else if (pausedBySchedule) {
+    pausedBySchedule = false
+    if (state === 'paused') Scheduler.resume()
+  }
+  onChange?.(info)
+}
+
+// 计时已被其他原因（空闲、锁屏）暂停时，非工作时间内不应恢复：返回 true 表示交由时间表在下次工作时间开始时恢复
+export function holdUntilWorkHours(): boolean {
+  if (!getOffHours().off) return false
+  if (isBreakPhase(Scheduler.getPhase().phase)) Scheduler.endBreak('schedule')
+  pausedBySchedule = true
+  return true
+}
+
+// 每个时间段的开始、结束以及安静时段结束时各安排一个任务，到点后重新判断
+function reschedule(): void {
+  jobs.forEach((job) => job.cancel())
+  jobs = []
+
+  if (settings.get('scheduleEnabled')) {
+    settings.get('schedulePeriods').forEach((period) => {
+      ;[period.start, period.end].forEach((time) => {
+        const [hour, minute] = parseTime(time)
+        const rule = new RecurrenceRule()
+        // 24:00 即次日 0 点
+        rule.dayOfWeek = hour === 24 ? period.days.map((day) => (day + 1) % 7) : period.days
+        rule.hour = hour % 24
+        rule.minute = minute
+        rule.second = 0
+        jobs.push(schedule.scheduleJob(rule, sync))
+      })
+    })
+  }
+
+  const quietUntil = settings.get('quietUntil')
+  if (quietUntil > Date.now()) {
+    jobs.push(schedule.scheduleJob(new Date(quietUntil), sync))
+  }
+}
+
+// 需在调度器恢复倒计时之后调用：启动时不在工作时间内则立即暂停
+export function watchWorkHours(listener?: (info: OffHoursInfo) => void): void {
+  onChange = listener
+  reschedule()
+  sync()
+
+  settings.on('change', (_, patch) => {
+    if ('scheduleEnabled' in patch || 'schedulePeriods' in patch || 'quietUntil' in patch) {
+      reschedule()
+      sync()
+    }
+  })
+
+  // 非工作时间内用户手动继续计时，视为临时加班，不再自动恢复/暂停
+  Scheduler.on('state-change', (info: PhaseInfo) => {
+    if (pausedBySchedule && info.state !== 'paused') {
+      pausedBySchedule = false
+    }
+  })
+}
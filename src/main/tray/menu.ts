@@ -0,0 +1,115 @@
+import { app, Menu, MenuItemConstructorOptions } from 'electron'
+import Scheduler from '../tasks/scheduler'
+import { t } from '../i18n'
+import settings from '../store/settings'
+import { toggleWindow } from '../screen/HomeScreen'
+import { createSettingsWindow } from '../screen/SettingsWindow'
+
+// 推迟休息可选的分钟数
+const POSTPONE_MINUTES = [5, 10, 30]
+
+// 安静模式可选的分钟数
+const QUIET_MINUTES = [30, 60, 120]
+
+// 明天 0 点
+function tomorrow(): number {
+  const date = new Date()
+  date.setHours(24, 0, 0, 0)
+  return date.getTime()
+}
+
+function formatSeconds(seconds: number): string {
+  const pad = (n: number): string => String(n).padStart(2, '0')
+  return `${pad(Math.floor(seconds / 60))}:${pad(seconds % 60)}`
+}
+
+// 托盘右键菜单，每次调用都按调度器当前状态重新生成
+export function buildTrayMenu(): Menu {
+  const info = Scheduler.getPhase()
+  const counting = info.state === 'running' || info.state === 'break'
+  const locked = Scheduler.isBreakLocked()
+
+  const template: MenuItemConstructorOptions[] = [
+    {
+      label: `${t(`tray.state.${info.state}`)} · ${t('tray.remaining', { time: formatSeconds(info.remainingTime) })}`,
+      enabled: false
+    },
+    { type: 'separator' },
+    counting
+      ? { label: t('tray.pause'), enabled: !locked, click: (): void => Scheduler.pause() }
+      : {
+          label: info.state === 'paused' ? t('tray.resume') : t('tray.start'),
+          click: (): void => Scheduler.resume()
+        },
+    { label: t('tray.reset'), enabled: !locked, click: (): void => Scheduler.resetCountdown() },
+    { type: 'separator' },
+    {
+      label: t('tray.breakNow'),
+      enabled: info.phase === 'work',
+      click: (): void => Scheduler.startBreak()
+    },
+    {
+      label: t('tray.skipNextBreak'),
+      type: 'checkbox',
+      enabled: settings.get('allowSkip'),
+      checked: Scheduler.isSkippingNextBreak(),
+      click: (item): void => Scheduler.setSkipNextBreak(item.checked)
+    },
+    {
+      label: t('tray.postpone'),
+      enabled: Scheduler.canPostpone(),
+      submenu: POSTPONE_MINUTES.map((minutes) => ({
+        label: t('tray.postponeMinutes', { count: minutes }),
+        click: (): void => Scheduler.postpone(minutes * 60)
+      }))
+    },
+    {
+      label: t('tray.quiet'),
+      submenu: [
+        ...QUIET_MINUTES.map(
+          (minutes): MenuItemConstructorOptions => ({
+            label: t('tray.postponeMinutes', { count: minutes }),
+            click: (): void => {
+              settings.set({ quietUntil: Date.now() + minutes * 60 * 1000 })
+            }
+          })
+        ),
+        {
+          label: t('tray.quietUntilTomorrow'),
+          click: (): void => {
+            settings.set({ quietUntil: tomorrow() })
+          }
+        },
+        { type: 'separator' },
+        {
+          label: t('tray.quietCancel'),
+          enabled: settings.get('quietUntil') > Date.now(),
+          click: (): void => {
+            settings.set({ quietUntil: 0 })
+          }
+        }
+      ]
+    },
+    { type: 'separator' },
+    {
+      label: t('tray.settings'),
+      click: (): void => {
+        createSettingsWindow()
+      }
+    },
+    { label: t('tray.toggle'), click: (): void => toggleWindow() },
+    { type: 'separator' },
+    {
+      label: t('tray.restart'),
+      click: (): void => {
+        // app.exit 不会触发 before-quit，先手动保存倒计时
+        Scheduler.persist()
+        app.relaunch()
+        app.exit()
+      }
+    },
+    { label: t('tray.quit'), click: (): void => app.quit() }
+  ]
+
+  return Menu.buildFromTemplate(template)
+}
@@ -0,0 +1,75 @@
+import { nativeImage, Tray } from 'electron'
+import sunTemplate from '../../../resources/tray/sunTemplate.png?asset'
+import flagTemplate from '../../../resources/tray/flagTemplate.png?asset'
+import umbrellaTemplate from '../../../resources/tray/umbrellaTemplate.png?asset'
+import moonTemplate from '../../../resources/tray/moonTemplate.png?asset'
+import cloudTemplate from '../../../resources/tray/cloudTemplate.png?asset'
+import Scheduler, { PhaseInfo } from '../tasks/scheduler'
+import settings from '../store/settings'
+import { t } from '../i18n'
+
+// 工作剩余时间少于该值（秒）时提示即将休息
+const DUE_SOON = 60
+
+type TrayStatus = 'working' | 'dueSoon' | 'break' | 'paused' | 'disabled'
+
+const icons: Record<TrayStatus, string> = {
+  working: sunTemplate,
+  dueSoon: flagTemplate,
+  break: umbrellaTemplate,
+  paused: moonTemplate,
+  disabled: cloudTemplate
+}
+
+function getStatus(info: PhaseInfo): TrayStatus {
+  switch (info.state) {
+    case 'break':
+      return 'break'
+    case 'paused':
+      return 'paused'
+    case 'idle':
+      return 'disabled'
+    default:
+      return info.remainingTime <= DUE_SOON ? 'dueSoon' : 'working'
+  }
+}
+
+// 根据调度器状态切换托盘图标，并在提示文字（macOS 上还有标题）中显示剩余分钟数
+export function watchTrayStatus(tray: Tray): void {
+  let status: TrayStatus | null = null
+  let text = ''
+
+  const update = (info: PhaseInfo): void => {
+    if (tray.isDestroyed()) return
+    const next = getStatus(info)
+    if (next !== status) {
+      status = next
+      const image = nativeImage.createFromPath(icons[next])
+      image.setTemplateImage(true)
+      tray.setImage(image)
+    }
+
+    const minutes = Math.ceil(info.remainingTime / 60)
+    const tooltip = t('tray.status', { state: t(`tray.state.${info.state}`), count: minutes })
+    if (tooltip !== text) {
+      text = tooltip
+      tray.setToolTip(tooltip)
+      // 标题只在 macOS 菜单栏显示，保持简短以免挤掉图标
+      if (process.platform === 'darwin') {
+        tray.setTitle(info.state === 'idle' ? '' : t('tray.title', { count: minutes }))
+      }
+    }
+  }
+
+  const refresh = (): void => update(Scheduler.getPhase())
+  refresh()
+  Scheduler.on('tick', update)
+  Scheduler.on('state-change', update)
+  Scheduler.on('phase-change', update)
+  settings.on('change', (_, patch) => {
+    if ('language' in patch) {
+      text = ''
+      refresh()
+    }
+  })
+}
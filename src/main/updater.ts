@@ -0,0 +1,123 @@
+// 自动更新：启动时及定期检查更新，发现新版本后自动下载，下载完成后提示重启安装
+
+import { app } from 'electron'
+import { join } from 'path'
+import { is } from '@electron-toolkit/utils'
+import { autoUpdater } from 'electron-updater'
+import schedule from 'node-schedule'
+import settings, { UpdateChannel } from './store/settings'
+import { isUpdateServer } from './store/validateSettings'
+
+// 每隔多少小时自动检查一次
+const CHECK_HOURS = 6
+
+export type UpdateState =
+  | 'idle'
+  | 'checking'
+  | 'latest'
+  | 'downloading'
+  | 'downloaded'
+  | 'error'
+  | 'unsupported'
+
+// version 为发现的新版本，percent 为下载进度（0-100）
+export interface UpdateStatus {
+  state: UpdateState
+  currentVersion: string
+  version: string | null
+  percent: number
+  error: string | null
+}
+
+let status: UpdateStatus = {
+  state: 'idle',
+  currentVersion: app.getVersion(),
+  version: null,
+  percent: 0,
+  error: null
+}
+let onChange: ((status: UpdateStatus) => void) | undefined
+
+function update(patch: Partial<UpdateStatus>): void {
+  status = { ...status, ...patch }
+  onChange?.(status)
+}
+
+// stable 对应 latest.yml，beta 对应 beta.yml 并允许预发布版本
+function applyChannel(channel: UpdateChannel): void {
+  autoUpdater.channel = channel === 'beta' ? 'beta' : 'latest'
+  autoUpdater.allowPrerelease = channel === 'beta'
+}
+
+// 配置了更新地址（本机测试服务器）时使用该地址，否则使用打包时生成的 app-update.yml；
+// 不符合要求的地址（如手动改过配置文件）一律忽略
+function applyServer(url: string): void {
+  if (url && isUpdateServer(url)) {
+    autoUpdater.setFeedURL({ provider: 'generic', url, channel: autoUpdater.channel })
+  } else {
+    autoUpdater.updateConfigPath = is.dev
+      ? join(app.getAppPath(), 'dev-app-update.yml')
+      : join(process.resourcesPath, 'app-update.yml')
+  }
+}
+
+// 检查更新；已在下载或已下载完成时不再重复检查
+export function checkForUpdates(): UpdateStatus {
+  if (status.state === 'downloading' || status.state === 'downloaded') return status
+  if (!autoUpdater.isUpdaterActive()) {
+    update({ state: 'unsupported' })
+    return status
+  }
+  update({ state: 'checking', error: null })
+  autoUpdater.checkForUpdates().catch((error) => {
+    // 失败原因已通过 error 事件记录
+    console.error('[updater] 检查更新失败:', error)
+  })
+  return status
+}
+
+// 退出并安装已下载的更新，退出前倒计时照常保存
+export function installUpdate(): void {
+  if (status.state === 'downloaded') {
+    autoUpdater.quitAndInstall()
+  }
+}
+
+export function getUpdateStatus(): UpdateStatus {
+  return status
+}
+
+export function watchUpdater(listener: (status: UpdateStatus) => void): void {
+  onChange = listener
+  // 开发环境下读取 dev-app-update.yml，便于对接本机更新服务器调试
+  autoUpdater.forceDevUpdateConfig = is.dev
+  autoUpdater.autoDownload = true
+
+  autoUpdater.on('update-available', (info) =>
+    update({ state: 'downloading', version: info.version, percent: 0 })
+  )
+  autoUpdater.on('update-not-available', () => update({ state: 'latest', version: null }))
+  autoUpdater.on('download-progress', (progress) =>
+    update({ state: 'downloading', percent: Math.floor(progress.percent) })
+  )
+  autoUpdater.on('update-downloaded', (info) =>
+    update({ state: 'downloaded', version: info.version, percent: 100 })
+  )
+  autoUpdater.on('error', (error) => update({ state: 'error', error: error.message }))
+
+  applyChannel(settings.get('updateChannel'))
+  if (settings.get('updateServer')) applyServer(settings.get('updateServer'))
+
+  const autoCheck = (): void => {
+    if (settings.get('updateAutoCheck')) checkForUpdates()
+  }
+  autoCheck()
+  schedule.scheduleJob(`0 */${CHECK_HOURS} * * *`, autoCheck)
+
+  settings.on('change', (data, patch) => {
+    if ('updateChannel' in patch) applyChannel(data.updateChannel)
+    if ('updateChannel' in patch || 'updateServer' in patch) {
+      applyServer(data.updateServer)
+    }
+  })
+}
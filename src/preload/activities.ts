@@ -0,0 +1,22 @@
+import { ipcRenderer } from 'electron'
+import { listen, unlisten } from './ipc'
+import type { Activity } from '../main/store/settings'
+
+interface ActivitiesAPI {
+  getCurrent: () => Promise<Activity[]>
+  onChange: (callback: (activities: Activity[]) => void) => void
+  removeChangeListener: (callback: (activities: Activity[]) => void) => void
+}
+
+const activitiesAPI: ActivitiesAPI = {
+  // 调用主进程方法
+  getCurrent: () => ipcRenderer.invoke('get-break-activities'),
+
+  // 监听休息活动变化（每次进入休息时重新选择）
+  onChange: (callback) => listen('break-activities', callback),
+
+  // 移除休息活动变化监听器
+  removeChangeListener: (callback) => unlisten('break-activities', callback)
+}
+
+export default activitiesAPI
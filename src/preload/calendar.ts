@@ -0,0 +1,21 @@
+import { ipcRenderer } from 'electron'
+import type { CalendarStatus } from '../main/tasks/calendar'
+
+interface CalendarAPI {
+  getStatus: () => Promise<CalendarStatus>
+  refresh: () => Promise<CalendarStatus>
+  chooseFile: () => Promise<string | null>
+}
+
+const calendarAPI: CalendarAPI = {
+  // 获取各日历的读取情况与接下来的会议
+  getStatus: () => ipcRenderer.invoke('get-calendar-status'),
+
+  // 重新读取日历
+  refresh: () => ipcRenderer.invoke('refresh-calendars'),
+
+  // 选择 .ics 文件
+  chooseFile: () => ipcRenderer.invoke('choose-calendar-file')
+}
+
+export default calendarAPI
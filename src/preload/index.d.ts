@@ -1,4 +1,14 @@
 import { ElectronAPI } from '@electron-toolkit/preload'
+import type { Activity, Reminder, Settings, SettingsPatch, SoundCue } from '../main/store/settings'
+import type { Phase, PhaseInfo, TimerState } from '../main/tasks/scheduler'
+import type { OffHoursInfo } from '../main/tasks/workHours'
+import type { CalendarStatus } from '../main/tasks/calendar'
+import type { ReminderInfo } from '../main/tasks/reminders'
+import type { ApiStatus } from '../main/api'
+import type { UpdateStatus } from '../main/updater'
+import type { SessionRecord } from '../main/store/history'
+import type { Stats } from '../main/store/stats'
+import type { HistoryFormat } from '../main/store/transfer'
 
 declare global {
   interface Window {
@@ -6,8 +16,74 @@ declare global {
     api: unknown
     timer: {
       reset: () => void
+      pause: () => Promise<void>
+      resume: () => Promise<void>
+      getState: () => Promise<TimerState>
       getRemainingTime: () => Promise<number>
-      onUpdate: (callback: (remainingTime: number) => void) => void
+      onUpdate: (callback: (remainingTime: number, info: PhaseInfo) => void) => void
+      removeUpdateListener: (callback: (remainingTime: number, info: PhaseInfo) => void) => void
+      onFinish: (callback: (phase: Phase) => void) => void
+      removeFinishListener: (callback: (phase: Phase) => void) => void
+      onStateChange: (callback: (info: PhaseInfo) => void) => void
+      removeStateChangeListener: (callback: (info: PhaseInfo) => void) => void
+      getPhase: () => Promise<PhaseInfo>
+      startBreak: () => Promise<void>
+      skipBreak: (via?: string) => Promise<void>
+      postpone: (seconds: number) => Promise<void>
+      setSkipNextBreak: (skip: boolean) => Promise<void>
+      onPhaseChange: (callback: (info: PhaseInfo) => void) => void
+      removePhaseChangeListener: (callback: (info: PhaseInfo) => void) => void
+      onBreakDeferred: (callback: (info: PhaseInfo) => void) => void
+      removeBreakDeferredListener: (callback: (info: PhaseInfo) => void) => void
+      getOffHours: () => Promise<OffHoursInfo>
+      onOffHoursChange: (callback: (info: OffHoursInfo) => void) => void
+      removeOffHoursChangeListener: (callback: (info: OffHoursInfo) => void) => void
+    }
+    settings: {
+      get: () => Promise<Settings>
+      set: (patch: SettingsPatch) => Promise<Settings>
+      onChange: (callback: (settings: Settings) => void) => void
+      removeChangeListener: (callback: (settings: Settings) => void) => void
+      getApiStatus: () => Promise<ApiStatus>
+      regenerateApiToken: () => Promise<string>
+    }
+    stats: {
+      get: () => Promise<Stats>
+      getHistory: (from?: number, to?: number) => Promise<SessionRecord[]>
+    }
+    transfer: {
+      exportHistory: (format: HistoryFormat, from?: number, to?: number) => Promise<string | null>
+      exportSettings: () => Promise<string | null>
+      importSettings: () => Promise<Settings | null>
+    }
+    activities: {
+      getCurrent: () => Promise<Activity[]>
+      onChange: (callback: (activities: Activity[]) => void) => void
+      removeChangeListener: (callback: (activities: Activity[]) => void) => void
+    }
+    sound: {
+      chooseFile: () => Promise<string | null>
+      preview: (cue: SoundCue, file?: string) => Promise<void>
+      onPlay: (callback: (src: string, volume: number) => void) => void
+      removePlayListener: (callback: (src: string, volume: number) => void) => void
+    }
+    calendar: {
+      getStatus: () => Promise<CalendarStatus>
+      refresh: () => Promise<CalendarStatus>
+      chooseFile: () => Promise<string | null>
+    }
+    reminders: {
+      list: () => Promise<ReminderInfo[]>
+      save: (reminder: Omit<Reminder, 'id'> & { id?: string }) => Promise<ReminderInfo[]>
+      remove: (id: string) => Promise<ReminderInfo[]>
+      test: (id: string) => Promise<void>
+    }
+    updater: {
+      getStatus: () => Promise<UpdateStatus>
+      check: () => Promise<UpdateStatus>
+      install: () => Promise<void>
+      onStatus: (callback: (status: UpdateStatus) => void) => void
+      removeStatusListener: (callback: (status: UpdateStatus) => void) => void
     }
     versions: {
       node(): string
@@ -1,6 +1,14 @@
 import { contextBridge, ipcRenderer } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
 import timerAPI from './tasks'
+import settingsAPI from './settings'
+import statsAPI from './stats'
+import transferAPI from './transfer'
+import activitiesAPI from './activities'
+import soundAPI from './sound'
+import calendarAPI from './calendar'
+import remindersAPI from './reminders'
+import updaterAPI from './updater'
 
 // Custom APIs for renderer
 const api = {}
@@ -11,6 +19,14 @@ const api = {}
 if (process.contextIsolated) {
   try {
     contextBridge.exposeInMainWorld('timer', timerAPI)
+    contextBridge.exposeInMainWorld('settings', settingsAPI)
+    contextBridge.exposeInMainWorld('stats', statsAPI)
+    contextBridge.exposeInMainWorld('transfer', transferAPI)
+    contextBridge.exposeInMainWorld('activities', activitiesAPI)
+    contextBridge.exposeInMainWorld('sound', soundAPI)
+    contextBridge.exposeInMainWorld('calendar', calendarAPI)
+    contextBridge.exposeInMainWorld('reminders', remindersAPI)
+    contextBridge.exposeInMainWorld('updater', updaterAPI)
     contextBridge.exposeInMainWorld('versions', {
       node: () => process.versions.node,
       chrome: () => process.versions.chrome,
@@ -27,6 +43,22 @@ if (process.contextIsolated) {
   // @ts-ignore (define in dts)
   window.timer = timerAPI
   // @ts-ignore (define in dts)
+  window.settings = settingsAPI
+  // @ts-ignore (define in dts)
+  window.stats = statsAPI
+  // @ts-ignore (define in dts)
+  window.transfer = transferAPI
+  // @ts-ignore (define in dts)
+  window.activities = activitiesAPI
+  // @ts-ignore (define in dts)
+  window.sound = soundAPI
+  // @ts-ignore (define in dts)
+  window.calendar = calendarAPI
+  // @ts-ignore (define in dts)
+  window.reminders = remindersAPI
+  // @ts-ignore (define in dts)
+  window.updater = updaterAPI
+  // @ts-ignore (define in dts)
   window.electron = electronAPI
   // @ts-ignore (define in dts)
   window.api = api
@@ -0,0 +1,26 @@
+import { ipcRenderer, IpcRendererEvent } from 'electron'
+
+type Listener = (event: IpcRendererEvent, ...args: unknown[]) => void
+
+// 记录回调与实际注册的监听器，移除时才能找到同一个函数
+const listeners = new Map<string, Map<unknown, Listener>>()
+
+export function listen<A extends unknown[]>(channel: string, callback: (...args: A) => void): void {
+  const listener: Listener = (_, ...args) => callback(...(args as A))
+  if (!listeners.has(channel)) {
+    listeners.set(channel, new Map())
+  }
+  listeners.get(channel)?.set(callback, listener)
+  ipcRenderer.on(channel, listener)
+}
+
+export function unlisten<A extends unknown[]>(
+  channel: string,
+  callback: (...args: A) => void
+): void {
+  const listener = listeners.get(channel)?.get(callback)
+  if (listener) {
+    ipcRenderer.removeListener(channel, listener)
+    listeners.get(channel)?.delete(callback)
+  }
+}
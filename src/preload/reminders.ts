@@ -0,0 +1,26 @@
+import { ipcRenderer } from 'electron'
+import type { Reminder } from '../main/store/settings'
+import type { ReminderInfo } from '../main/tasks/reminders'
+
+interface RemindersAPI {
+  list: () => Promise<ReminderInfo[]>
+  save: (reminder: Omit<Reminder, 'id'> & { id?: string }) => Promise<ReminderInfo[]>
+  remove: (id: string) => Promise<ReminderInfo[]>
+  test: (id: string) => Promise<void>
+}
+
+const remindersAPI: RemindersAPI = {
+  // 获取所有提醒及下次触发时间
+  list: () => ipcRenderer.invoke('get-reminders'),
+
+  // 新增或修改提醒
+  save: (reminder) => ipcRenderer.invoke('save-reminder', reminder),
+
+  // 删除提醒
+  remove: (id) => ipcRenderer.invoke('delete-reminder', id),
+
+  // 立即触发一次提醒
+  test: (id) => ipcRenderer.invoke('test-reminder', id)
+}
+
+export default remindersAPI
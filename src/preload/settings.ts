@@ -0,0 +1,33 @@
+import { ipcRenderer } from 'electron'
+import { listen, unlisten } from './ipc'
+import type { Settings, SettingsPatch } from '../main/store/settings'
+import type { ApiStatus } from '../main/api'
+
+interface SettingsAPI {
+  get: () => Promise<Settings>
+  set: (patch: SettingsPatch) => Promise<Settings>
+  onChange: (callback: (settings: Settings) => void) => void
+  removeChangeListener: (callback: (settings: Settings) => void) => void
+  getApiStatus: () => Promise<ApiStatus>
+  regenerateApiToken: () => Promise<string>
+}
+
+const settingsAPI: SettingsAPI = {
+  // 调用主进程方法
+  get: () => ipcRenderer.invoke('get-settings'),
+  set: (patch) => ipcRenderer.invoke('set-settings', patch),
+
+  // 监听配置变化（任意窗口修改后都会推送）
+  onChange: (callback) => listen('settings-changed', callback),
+
+  // 移除配置变化监听器
+  removeChangeListener: (callback) => unlisten('settings-changed', callback),
+
+  // 本机控制接口的运行状态（端口被占用时带有错误信息）
+  getApiStatus: () => ipcRenderer.invoke('get-api-status'),
+
+  // 重新生成本机控制接口令牌
+  regenerateApiToken: () => ipcRenderer.invoke('regenerate-api-token')
+}
+
+export default settingsAPI
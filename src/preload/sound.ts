@@ -0,0 +1,24 @@
+import { ipcRenderer } from 'electron'
+import { listen, unlisten } from './ipc'
+import type { SoundCue } from '../main/store/settings'
+
+interface SoundAPI {
+  chooseFile: () => Promise<string | null>
+  preview: (cue: SoundCue, file?: string) => Promise<void>
+  onPlay: (callback: (src: string, volume: number) => void) => void
+  removePlayListener: (callback: (src: string, volume: number) => void) => void
+}
+
+const soundAPI: SoundAPI = {
+  // 调用主进程方法
+  chooseFile: () => ipcRenderer.invoke('choose-sound-file'),
+  preview: (cue, file) => ipcRenderer.invoke('preview-sound', cue, file),
+
+  // 监听播放提示音（只有首页窗口会收到）
+  onPlay: (callback) => listen('play-sound', callback),
+
+  // 移除播放提示音监听器
+  removePlayListener: (callback) => unlisten('play-sound', callback)
+}
+
+export default soundAPI
@@ -0,0 +1,16 @@
+import { ipcRenderer } from 'electron'
+import type { SessionRecord } from '../main/store/history'
+import type { Stats } from '../main/store/stats'
+
+interface StatsAPI {
+  get: () => Promise<Stats>
+  getHistory: (from?: number, to?: number) => Promise<SessionRecord[]>
+}
+
+const statsAPI: StatsAPI = {
+  // 调用主进程方法
+  get: () => ipcRenderer.invoke('get-stats'),
+  getHistory: (from, to) => ipcRenderer.invoke('get-history', from, to)
+}
+
+export default statsAPI
@@ -1,50 +1,87 @@
 import { ipcRenderer } from 'electron'
+import { listen, unlisten } from './ipc'
+import type { Phase, PhaseInfo, TimerState } from '../main/tasks/scheduler'
+import type { OffHoursInfo } from '../main/tasks/workHours'
 
 interface TimerAPI {
   stop: () => Promise<void>
   reset: () => Promise<void>
+  pause: () => Promise<void>
+  resume: () => Promise<void>
+  getState: () => Promise<TimerState>
   getRemainingTime: () => Promise<number>
   setDuration: (seconds: number) => Promise<void>
-  onUpdate: (callback: (remainingTime: number) => void) => void
-  removeUpdateListener: (callback: (remainingTime: number) => void) => void
-  onFinish: (callback: () => void) => void
-  removeFinishListener: (callback: () => void) => void
+  onUpdate: (callback: (remainingTime: number, info: PhaseInfo) => void) => void
+  removeUpdateListener: (callback: (remainingTime: number, info: PhaseInfo) => void) => void
+  onFinish: (callback: (phase: Phase) => void) => void
+  removeFinishListener: (callback: (phase: Phase) => void) => void
+  getPhase: () => Promise<PhaseInfo>
+  startBreak: () => Promise<void>
+  skipBreak: (via?: string) => Promise<void>
+  postpone: (seconds: number) => Promise<void>
+  setSkipNextBreak: (skip: boolean) => Promise<void>
+  onStateChange: (callback: (info: PhaseInfo) => void) => void
+  removeStateChangeListener: (callback: (info: PhaseInfo) => void) => void
+  onPhaseChange: (callback: (info: PhaseInfo) => void) => void
+  removePhaseChangeListener: (callback: (info: PhaseInfo) => void) => void
+  onBreakDeferred: (callback: (info: PhaseInfo) => void) => void
+  removeBreakDeferredListener: (callback: (info: PhaseInfo) => void) => void
+  getOffHours: () => Promise<OffHoursInfo>
+  onOffHoursChange: (callback: (info: OffHoursInfo) => void) => void
+  removeOffHoursChangeListener: (callback: (info: OffHoursInfo) => void) => void
 }
 
 const timerAPI: TimerAPI = {
   // 调用主进程方法
   stop: () => ipcRenderer.invoke('stop-countdown'),
   reset: () => ipcRenderer.invoke('reset-countdown'),
+  pause: () => ipcRenderer.invoke('pause-countdown'),
+  resume: () => ipcRenderer.invoke('resume-countdown'),
+  getState: () => ipcRenderer.invoke('get-timer-state'),
   getRemainingTime: () => ipcRenderer.invoke('get-remaining-time'),
   setDuration: (seconds) => ipcRenderer.invoke('set-countdown-duration', seconds),
+  getPhase: () => ipcRenderer.invoke('get-phase'),
+  startBreak: () => ipcRenderer.invoke('start-break'),
+  skipBreak: (via) => ipcRenderer.invoke('skip-break', via),
+  postpone: (seconds) => ipcRenderer.invoke('postpone-break', seconds),
+  setSkipNextBreak: (skip) => ipcRenderer.invoke('skip-next-break', skip),
+  getOffHours: () => ipcRenderer.invoke('get-off-hours'),
 
-  // 监听更新事件
-  onUpdate: (callback) => {
-    ipcRenderer.on('countdown-update', (_, remainingTime) => {
-      callback(remainingTime)
-    })
-  },
+  // 监听更新事件（每秒一次）
+  onUpdate: (callback) => listen('countdown-update', callback),
 
   // 移除更新事件监听器
-  removeUpdateListener: (callback) => {
-    ipcRenderer.removeListener('countdown-update', (_, remainingTime) => {
-      callback(remainingTime)
-    })
-  },
+  removeUpdateListener: (callback) => unlisten('countdown-update', callback),
 
   // 监听完成事件
-  onFinish: (callback) => {
-    ipcRenderer.on('countdown-finished', () => {
-      callback()
-    })
-  },
+  onFinish: (callback) => listen('countdown-finished', callback),
 
   // 移除完成事件监听器
-  removeFinishListener: (callback) => {
-    ipcRenderer.removeListener('countdown-finished', () => {
-      callback()
-    })
-  }
+  removeFinishListener: (callback) => unlisten('countdown-finished', callback),
+
+  // 监听开始/停止计时事件
+  onStateChange: (callback) => listen('countdown-state', callback),
+
+  // 移除开始/停止计时事件监听器
+  removeStateChangeListener: (callback) => unlisten('countdown-state', callback),
+
+  // 监听阶段切换事件
+  onPhaseChange: (callback) => listen('phase-changed', callback),
+
+  // 移除阶段切换事件监听器
+  removePhaseChangeListener: (callback) => unlisten('phase-changed', callback),
+
+  // 监听休息被暂缓事件
+  onBreakDeferred: (callback) => listen('break-deferred', callback),
+
+  // 移除休息被暂缓事件监听器
+  removeBreakDeferredListener: (callback) => unlisten('break-deferred', callback),
+
+  // 监听工作时间状态变化（进入 / 离开非工作时间）
+  onOffHoursChange: (callback) => listen('off-hours-changed', callback),
+
+  // 移除工作时间状态变化监听器
+  removeOffHoursChangeListener: (callback) => unlisten('off-hours-changed', callback)
 }
 
 export default timerAPI
@@ -0,0 +1,18 @@
+import { ipcRenderer } from 'electron'
+import type { Settings } from '../main/store/settings'
+import type { HistoryFormat } from '../main/store/transfer'
+
+interface TransferAPI {
+  exportHistory: (format: HistoryFormat, from?: number, to?: number) => Promise<string | null>
+  exportSettings: () => Promise<string | null>
+  importSettings: () => Promise<Settings | null>
+}
+
+const transferAPI: TransferAPI = {
+  // 调用主进程方法，均会弹出文件选择框，用户取消时返回 null
+  exportHistory: (format, from, to) => ipcRenderer.invoke('export-history', format, from, to),
+  exportSettings: () => ipcRenderer.invoke('export-settings'),
+  importSettings: () => ipcRenderer.invoke('import-settings')
+}
+
+export default transferAPI
@@ -0,0 +1,30 @@
+import { ipcRenderer } from 'electron'
+import { listen, unlisten } from './ipc'
+import type { UpdateStatus } from '../main/updater'
+
+interface UpdaterAPI {
+  getStatus: () => Promise<UpdateStatus>
+  check: () => Promise<UpdateStatus>
+  install: () => Promise<void>
+  onStatus: (callback: (status: UpdateStatus) => void) => void
+  removeStatusListener: (callback: (status: UpdateStatus) => void) => void
+}
+
+const updaterAPI: UpdaterAPI = {
+  // 获取当前的检查 / 下载状态
+  getStatus: () => ipcRenderer.invoke('get-update-status'),
+
+  // 立即检查更新，发现新版本后自动下载
+  check: () => ipcRenderer.invoke('check-for-updates'),
+
+  // 退出并安装已下载的更新
+  install: () => ipcRenderer.invoke('install-update'),
+
+  // 监听检查、下载进度等状态变化
+  onStatus: (callback) => listen('update-status', callback),
+
+  // 移除状态监听器
+  removeStatusListener: (callback) => unlisten('update-status', callback)
+}
+
+export default updaterAPI
@@ -4,6 +4,15 @@ import { Routes, Route, HashRouter as Router, Navigate } from 'react-router-dom'
 import Overlook from './views/Overlook'
 import Home from './views/Home'
 import SettingMenu from './views/SettingMenu'
+import About from './views/About'
+import Settings from './views/Settings'
+import Whitelist from './views/Whitelist'
+import Calendar from './views/Calendar'
+import Reminders from './views/Reminders'
+import Activities from './views/Activities'
+import Stats from './views/Stats'
+import Data from './views/Data'
+import Update from './views/Update'
 import Layout from './components/Layout'
 import ErrorBoundary from './components/ErrorBoundary'
 
@@ -43,6 +52,96 @@ function App(): JSX.Element {
                 </ErrorBoundary>
               }
             />
+            <Route
+              path="/about"
+              element={
+                <ErrorBoundary title="关于页异常">
+                  <Layout type="none" defaultVisible>
+                    <About />
+                  </Layout>
+                </ErrorBoundary>
+              }
+            />
+            <Route
+              path="/settings"
+              element={
+                <ErrorBoundary title="设置页异常">
+                  <Layout type="none" defaultVisible>
+                    <Settings />
+                  </Layout>
+                </ErrorBoundary>
+              }
+            />
+            <Route
+              path="/whitelist"
+              element={
+                <ErrorBoundary title="白名单页异常">
+                  <Layout type="none" defaultVisible>
+                    <Whitelist />
+                  </Layout>
+                </ErrorBoundary>
+              }
+            />
+            <Route
+              path="/calendar"
+              element={
+                <ErrorBoundary title="日历页异常">
+                  <Layout type="none" defaultVisible>
+                    <Calendar />
+                  </Layout>
+                </ErrorBoundary>
+              }
+            />
+            <Route
+              path="/reminders"
+              element={
+                <ErrorBoundary title="提醒页异常">
+                  <Layout type="none" defaultVisible>
+                    <Reminders />
+                  </Layout>
+                </ErrorBoundary>
+              }
+            />
+            <Route
+              path="/activities"
+              element={
+                <ErrorBoundary title="休息活动页异常">
+                  <Layout type="none" defaultVisible>
+                    <Activities />
+                  </Layout>
+                </ErrorBoundary>
+              }
+            />
+            <Route
+              path="/stats"
+              element={
+                <ErrorBoundary title="统计页异常">
+                  <Layout type="none" defaultVisible>
+                    <Stats />
+                  </Layout>
+                </ErrorBoundary>
+              }
+            />
+            <Route
+              path="/data"
+              element={
+                <ErrorBoundary title="数据页异常">
+                  <Layout type="none" defaultVisible>
+                    <Data />
+                  </Layout>
+                </ErrorBoundary>
+              }
+            />
+            <Route
+              path="/update"
+              element={
+                <ErrorBoundary title="更新页异常">
+                  <Layout type="none" defaultVisible>
+                    <Update />
+                  </Layout>
+                </ErrorBoundary>
+              }
+            />
             {/* 兜底：任何未匹配路径都回首页 */}
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
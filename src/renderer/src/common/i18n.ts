@@ -22,10 +22,29 @@ i18n
   .init({
     fallbackLng: 'en',
     debug: true,
+    // 只根据系统语言检测，不缓存到 localStorage，避免覆盖配置中的语言
+    detection: {
+      order: ['navigator'],
+      caches: []
+    },
 
     interpolation: {
       escapeValue: false // not needed for react as it escapes by default
     }
   })
 
+// 语言以主进程保存的配置为准，空字符串表示跟随系统
+const applyLanguage = ({ language }: Settings): void => {
+  const next = language || undefined
+  if (next !== i18n.language) {
+    i18n.changeLanguage(next)
+  }
+}
+
+window.settings
+  ?.get()
+  .then(applyLanguage)
+  .catch((error) => console.error('[i18n] 读取语言配置失败:', error))
+window.settings?.onChange(applyLanguage)
+
 export default i18n
@@ -0,0 +1,4 @@
+// 去掉 invoke 被 reject 时 Electron 加上的前缀，只保留主进程抛出的错误信息
+export function ipcErrorMessage(error: unknown): string {
+  return (error as Error).message.replace(/^Error invoking remote method '[^']+': Error: /, '')
+}
@@ -0,0 +1,6 @@
+// 播放主进程发来的提示音，volume 取值 0-1
+export function playSound(src: string, volume: number): void {
+  const audio = new Audio(src)
+  audio.volume = Math.min(1, Math.max(0, volume))
+  audio.play().catch((error) => console.error('Failed to play sound:', error))
+}
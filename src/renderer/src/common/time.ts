@@ -0,0 +1,9 @@
+// 秒数格式化为 mm:ss，超过一小时显示为 hh:mm:ss
+export function formatSeconds(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds))
+  const pad = (n: number): string => String(n).padStart(2, '0')
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = total % 60
+  return h > 0 ? `${pad(h)}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`
+}
@@ -1,18 +1,281 @@
 /// <reference types="vite/client" />
 
+type Phase = 'work' | 'shortBreak' | 'longBreak'
+
+type TimerState = 'running' | 'paused' | 'idle' | 'break'
+
+interface PhaseInfo {
+  phase: Phase
+  state: TimerState
+  cycle: number
+  duration: number
+  remainingTime: number
+  skipNext: boolean
+  snoozes: number
+  deferredBy: string | null
+}
+
 interface TimerAPI {
   stop: () => Promise<void>
   reset: () => Promise<void>
+  pause: () => Promise<void>
+  resume: () => Promise<void>
+  getState: () => Promise<TimerState>
   getRemainingTime: () => Promise<number>
   setDuration: (seconds: number) => Promise<void>
-  onUpdate: (callback: (remainingTime: number) => void) => void
-  removeUpdateListener: (callback: (remainingTime: number) => void) => void
-  onFinish: (callback: () => void) => void
-  removeFinishListener: (callback: () => void) => void
+  onUpdate: (callback: (remainingTime: number, info: PhaseInfo) => void) => void
+  removeUpdateListener: (callback: (remainingTime: number, info: PhaseInfo) => void) => void
+  onFinish: (callback: (phase: Phase) => void) => void
+  removeFinishListener: (callback: (phase: Phase) => void) => void
+  onStateChange: (callback: (info: PhaseInfo) => void) => void
+  removeStateChangeListener: (callback: (info: PhaseInfo) => void) => void
+  getPhase: () => Promise<PhaseInfo>
+  startBreak: () => Promise<void>
+  skipBreak: (via?: string) => Promise<void>
+  postpone: (seconds: number) => Promise<void>
+  setSkipNextBreak: (skip: boolean) => Promise<void>
+  onPhaseChange: (callback: (info: PhaseInfo) => void) => void
+  removePhaseChangeListener: (callback: (info: PhaseInfo) => void) => void
+  onBreakDeferred: (callback: (info: PhaseInfo) => void) => void
+  removeBreakDeferredListener: (callback: (info: PhaseInfo) => void) => void
+  getOffHours: () => Promise<OffHoursInfo>
+  onOffHoursChange: (callback: (info: OffHoursInfo) => void) => void
+  removeOffHoursChangeListener: (callback: (info: OffHoursInfo) => void) => void
+}
+
+interface CountdownSnapshot {
+  remainingTime: number
+  running: boolean
+  phase?: Phase
+  cycle?: number
+  savedAt: number
+}
+
+type SoundCue = 'breakStart' | 'breakEnd' | 'warning'
+
+interface SchedulePeriod {
+  days: number[]
+  start: string
+  end: string
+}
+
+interface OffHoursInfo {
+  off: boolean
+  reason: 'schedule' | 'quiet' | null
+  until: number | null
+}
+
+type ReminderRule =
+  | { type: 'interval'; minutes: number }
+  | { type: 'time'; time: string; days: number[] }
+  | { type: 'cron'; cron: string }
+
+type ReminderStyle = 'notification' | 'silent' | 'dialog'
+
+interface Reminder {
+  id: string
+  name: string
+  message: string
+  rule: ReminderRule
+  style: ReminderStyle
+  enabled: boolean
+}
+
+interface CustomActivity {
+  title: string
+  steps: string[]
+  long: boolean
+}
+
+interface Settings {
+  version: number
+  workDuration: number
+  breakDuration: number
+  longBreakDuration: number
+  longBreakInterval: number
+  sleepPolicy: 'pause' | 'break' | 'continue'
+  idleThreshold: number
+  idleResetThreshold: number
+  breakMessage: string
+  allowSkip: boolean
+  allowPostpone: boolean
+  enforcement: 'gentle' | 'normal' | 'strict'
+  strictSkipDelay: number
+  breakWarnings: number[]
+  maxSnoozes: number
+  activityOrder: 'random' | 'sequence'
+  customActivities: CustomActivity[]
+  reminders: Reminder[]
+  whitelist: string[]
+  whitelistMaxDeferral: number
+  calendars: string[]
+  calendarEarlyBreak: boolean
+  language: string
+  launchAtLogin: boolean
+  startHidden: boolean
+  soundEnabled: boolean
+  soundVolume: number
+  sounds: Record<SoundCue, string>
+  respectDoNotDisturb: boolean
+  apiEnabled: boolean
+  apiPort: number
+  apiToken: string
+  updateAutoCheck: boolean
+  updateChannel: 'stable' | 'beta'
+  updateServer: string
+  scheduleEnabled: boolean
+  schedulePeriods: SchedulePeriod[]
+  quietUntil: number
+  countdown: CountdownSnapshot | null
+}
+
+type SettingsPatch = Partial<Omit<Settings, 'version' | 'countdown' | 'apiToken'>>
+
+interface ApiStatus {
+  running: boolean
+  port: number
+  error: string | null
+}
+
+interface SettingsAPI {
+  get: () => Promise<Settings>
+  set: (patch: SettingsPatch) => Promise<Settings>
+  onChange: (callback: (settings: Settings) => void) => void
+  removeChangeListener: (callback: (settings: Settings) => void) => void
+  getApiStatus: () => Promise<ApiStatus>
+  regenerateApiToken: () => Promise<string>
+}
+
+type SessionOutcome = 'completed' | 'skipped' | 'postponed' | 'dismissed' | 'interrupted'
+
+interface SessionRecord {
+  id: string
+  phase: Phase
+  start: number
+  end: number
+  planned: number
+  actual: number
+  outcome: SessionOutcome
+  via?: string
+  postponed?: number
+  enforcement?: 'gentle' | 'normal' | 'strict'
+}
+
+interface DailyStats {
+  date: string
+  work: number
+  break: number
+  breaks: Record<SessionOutcome, number>
+}
+
+interface Stats {
+  today: DailyStats
+  week: DailyStats
+  days: DailyStats[]
+  compliance: number | null
+  streak: number
+  bestStreak: number
+}
+
+interface StatsAPI {
+  get: () => Promise<Stats>
+  getHistory: (from?: number, to?: number) => Promise<SessionRecord[]>
+}
+
+type HistoryFormat = 'csv' | 'json'
+
+interface TransferAPI {
+  exportHistory: (format: HistoryFormat, from?: number, to?: number) => Promise<string | null>
+  exportSettings: () => Promise<string | null>
+  importSettings: () => Promise<Settings | null>
+}
+
+interface Activity {
+  id: string
+  kind: 'eye' | 'stretch' | 'breath' | 'custom'
+  title: string
+  steps: string[]
+  image?: string
+}
+
+interface ActivitiesAPI {
+  getCurrent: () => Promise<Activity[]>
+  onChange: (callback: (activities: Activity[]) => void) => void
+  removeChangeListener: (callback: (activities: Activity[]) => void) => void
+}
+
+interface SoundAPI {
+  chooseFile: () => Promise<string | null>
+  preview: (cue: SoundCue, file?: string) => Promise<void>
+  onPlay: (callback: (src: string, volume: number) => void) => void
+  removePlayListener: (callback: (src: string, volume: number) => void) => void
+}
+
+interface CalendarEvent {
+  uid: string
+  summary: string
+  start: number
+  end: number
+}
+
+interface CalendarStatus {
+  sources: { source: string; events: number; error?: string }[]
+  events: CalendarEvent[]
+}
+
+interface CalendarAPI {
+  getStatus: () => Promise<CalendarStatus>
+  refresh: () => Promise<CalendarStatus>
+  chooseFile: () => Promise<string | null>
+}
+
+interface ReminderInfo extends Reminder {
+  next: number | null
+  invalid: boolean
+}
+
+interface RemindersAPI {
+  list: () => Promise<ReminderInfo[]>
+  save: (reminder: Omit<Reminder, 'id'> & { id?: string }) => Promise<ReminderInfo[]>
+  remove: (id: string) => Promise<ReminderInfo[]>
+  test: (id: string) => Promise<void>
+}
+
+type UpdateState =
+  | 'idle'
+  | 'checking'
+  | 'latest'
+  | 'downloading'
+  | 'downloaded'
+  | 'error'
+  | 'unsupported'
+
+interface UpdateStatus {
+  state: UpdateState
+  currentVersion: string
+  version: string | null
+  percent: number
+  error: string | null
+}
+
+interface UpdaterAPI {
+  getStatus: () => Promise<UpdateStatus>
+  check: () => Promise<UpdateStatus>
+  install: () => Promise<void>
+  onStatus: (callback: (status: UpdateStatus) => void) => void
+  removeStatusListener: (callback: (status: UpdateStatus) => void) => void
 }
 
 interface Window {
   timer: TimerAPI
+  settings: SettingsAPI
+  stats: StatsAPI
+  transfer: TransferAPI
+  activities: ActivitiesAPI
+  sound: SoundAPI
+  calendar: CalendarAPI
+  reminders: RemindersAPI
+  updater: UpdaterAPI
   electron: any
   api: any
   versions: {
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Typography } from 'antd'
+import icon from '../../../../../build/icon.png'
+
+const About: React.FC = () => {
+  const { t } = useTranslation()
+  const [version, setVersion] = useState('')
+
+  useEffect(() => {
+    window.electron?.ipcRenderer
+      .invoke('get-app-info')
+      .then(({ version }: { version: string }) => setVersion(version))
+      .catch((error) => console.error('Failed to get app info:', error))
+  }, [])
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full w-full p-6 text-center">
+      <img src={icon} className="w-[72px] h-[72px]" />
+      <Typography.Title level={4} className="!mt-4 !mb-1">
+        一咻 ixiu
+      </Typography.Title>
+      {version && (
+        <Typography.Text type="secondary">{t('about.version', { version })}</Typography.Text>
+      )}
+      <Typography.Paragraph className="!mt-4">{t('about.description')}</Typography.Paragraph>
+    </div>
+  )
+}
+
+export default About
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button, Checkbox, Input, List, Radio, Space, Tag, Typography, message } from 'antd'
+import { DeleteOutlined } from '@ant-design/icons'
+import { ipcErrorMessage } from '@renderer/common/ipcError'
+
+const Activities: React.FC = () => {
+  const { t } = useTranslation()
+  const [items, setItems] = useState<CustomActivity[]>([])
+  const [order, setOrder] = useState<Settings['activityOrder']>('random')
+  const [title, setTitle] = useState('')
+  const [steps, setSteps] = useState('')
+  const [long, setLong] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [messageApi, contextHolder] = message.useMessage()
+
+  useEffect(() => {
+    window.settings
+      .get()
+      .then((settings) => {
+        setItems(settings.customActivities)
+        setOrder(settings.activityOrder)
+      })
+      .catch((error) => console.error('Failed to get settings:', error))
+  }, [])
+
+  // 步骤每行一条，空行忽略，最多 10 条
+  const onAdd = (): void => {
+    const value = title.trim()
+    if (!value) return
+    const lines = steps
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .slice(0, 10)
+    setItems([...items, { title: value, steps: lines, long }])
+    setTitle('')
+    setSteps('')
+    setLong(false)
+  }
+
+  const onSave = async (): Promise<void> => {
+    setSaving(true)
+    try {
+      await window.settings.set({ customActivities: items, activityOrder: order })
+      messageApi.success(t('settingsForm.saved'))
+    } catch (error) {
+      messageApi.error(ipcErrorMessage(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full w-full px-6 py-4 bg-white">
+      {contextHolder}
+      <Typography.Paragraph type="secondary">
+        {t('activitiesForm.description')}
+      </Typography.Paragraph>
+      <Space direction="vertical" className="w-full">
+        <Input
+          value={title}
+          maxLength={50}
+          placeholder={t('activitiesForm.title')}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+        <Input.TextArea
+          value={steps}
+          rows={3}
+          placeholder={t('activitiesForm.steps')}
+          onChange={(e) => setSteps(e.target.value)}
+        />
+        <div className="flex items-center justify-between">
+          <Checkbox checked={long} onChange={(e) => setLong(e.target.checked)}>
+            {t('activitiesForm.long')}
+          </Checkbox>
+          <Button onClick={onAdd}>{t('activitiesForm.add')}</Button>
+        </div>
+      </Space>
+      <List
+        className="flex-1 overflow-y-auto mt-3"
+        size="small"
+        bordered
+        dataSource={items}
+        locale={{ emptyText: t('activitiesForm.empty') }}
+        renderItem={(item, index) => (
+          <List.Item
+            actions={[
+              <DeleteOutlined
+                key="delete"
+                className="cursor-pointer"
+                onClick={() => setItems(items.filter((_, i) => i !== index))}
+              />
+            ]}
+          >
+            <List.Item.Meta
+              title={
+                <Space size={4}>
+                  {item.title}
+                  {item.long && <Tag>{t('activitiesForm.longTag')}</Tag>}
+                </Space>
+              }
+              description={item.steps.join(' / ')}
+            />
+          </List.Item>
+        )}
+      />
+      <div className="flex items-center justify-between mt-4">
+        <Space>
+          <span>{t('activitiesForm.order')}</span>
+          <Radio.Group value={order} onChange={(e) => setOrder(e.target.value)}>
+            <Radio.Button value="random">{t('activitiesForm.random')}</Radio.Button>
+            <Radio.Button value="sequence">{t('activitiesForm.sequence')}</Radio.Button>
+          </Radio.Group>
+        </Space>
+        <Button type="primary" loading={saving} onClick={onSave}>
+          {t('settingsForm.save')}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default Activities
@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button, Input, List, Space, Switch, Typography, message } from 'antd'
+import { DeleteOutlined } from '@ant-design/icons'
+import { ipcErrorMessage } from '@renderer/common/ipcError'
+
+const Calendar: React.FC = () => {
+  const { t, i18n } = useTranslation()
+  const [items, setItems] = useState<string[]>([])
+  const [earlyBreak, setEarlyBreak] = useState(true)
+  const [status, setStatus] = useState<CalendarStatus | null>(null)
+  const [input, setInput] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [messageApi, contextHolder] = message.useMessage()
+
+  useEffect(() => {
+    window.settings
+      .get()
+      .then((settings) => {
+        setItems(settings.calendars)
+        setEarlyBreak(settings.calendarEarlyBreak)
+      })
+      .catch((error) => console.error('Failed to get settings:', error))
+    window.calendar.getStatus().then(setStatus)
+  }, [])
+
+  const addItem = (value: string): void => {
+    if (value && !items.includes(value)) {
+      setItems([...items, value])
+    }
+  }
+
+  const onAdd = (): void => {
+    addItem(input.trim())
+    setInput('')
+  }
+
+  const onChoose = async (): Promise<void> => {
+    const file = await window.calendar.chooseFile()
+    if (file) addItem(file)
+  }
+
+  const onSave = async (): Promise<void> => {
+    setSaving(true)
+    try {
+      await window.settings.set({ calendars: items, calendarEarlyBreak: earlyBreak })
+      setStatus(await window.calendar.refresh())
+      messageApi.success(t('settingsForm.saved'))
+    } catch (error) {
+      messageApi.error(ipcErrorMessage(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const formatTime = (time: number): string =>
+    new Date(time).toLocaleString(i18n.language, {
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+
+  // 已保存的日历才有读取结果
+  const sourceStatus = (source: string): string => {
+    const result = status?.sources.find((item) => item.source === source)
+    if (!result) return ''
+    return result.error
+      ? t('calendar.error', { error: result.error })
+      : t('calendar.loaded', { count: result.events })
+  }
+
+  return (
+    <div className="flex flex-col h-full w-full px-6 py-4 bg-white">
+      {contextHolder}
+      <Typography.Paragraph type="secondary">{t('calendar.description')}</Typography.Paragraph>
+      <Space.Compact className="w-full">
+        <Input
+          value={input}
+          maxLength={1024}
+          placeholder={t('calendar.placeholder')}
+          onChange={(e) => setInput(e.target.value)}
+          onPressEnter={onAdd}
+        />
+        <Button onClick={onAdd}>{t('calendar.add')}</Button>
+        <Button onClick={onChoose}>{t('calendar.chooseFile')}</Button>
+      </Space.Compact>
+      <List
+        className="overflow-y-auto mt-3 max-h-[160px]"
+        size="small"
+        bordered
+        dataSource={items}
+        locale={{ emptyText: t('calendar.empty') }}
+        renderItem={(item) => (
+          <List.Item
+            actions={[
+              <DeleteOutlined
+                key="delete"
+                className="cursor-pointer"
+                onClick={() => setItems(items.filter((i) => i !== item))}
+              />
+            ]}
+          >
+            <List.Item.Meta
+              title={<span title={item}>{item.split(/[\\/]/).pop() || item}</span>}
+              description={sourceStatus(item)}
+            />
+          </List.Item>
+        )}
+      />
+      <Typography.Text strong className="mt-4 mb-2">
+        {t('calendar.upcoming')}
+      </Typography.Text>
+      <List
+        className="flex-1 overflow-y-auto"
+        size="small"
+        bordered
+        dataSource={status?.events ?? []}
+        locale={{ emptyText: t('calendar.noEvents') }}
+        renderItem={(event) => (
+          <List.Item>
+            <span className="truncate">{event.summary || t('calendar.busy')}</span>
+            <span className="text-gray-500 whitespace-nowrap">
+              {formatTime(event.start)} - {formatTime(event.end)}
+            </span>
+          </List.Item>
+        )}
+      />
+      <div className="flex items-center justify-between mt-4">
+        <Space>
+          <Switch checked={earlyBreak} onChange={setEarlyBreak} />
+          <span>{t('settingsForm.fields.calendarEarlyBreak')}</span>
+        </Space>
+        <Button type="primary" loading={saving} onClick={onSave}>
+          {t('settingsForm.save')}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default Calendar
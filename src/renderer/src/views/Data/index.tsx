@@ -0,0 +1,74 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button, DatePicker, Divider, Radio, Space, Typography, message } from 'antd'
+import { ipcErrorMessage } from '@renderer/common/ipcError'
+
+type Range = Parameters<
+  NonNullable<React.ComponentProps<typeof DatePicker.RangePicker>['onChange']>
+>[0]
+
+const Data: React.FC = () => {
+  const { t } = useTranslation()
+  const [format, setFormat] = useState<HistoryFormat>('csv')
+  const [range, setRange] = useState<Range>(null)
+  const [messageApi, contextHolder] = message.useMessage()
+
+  const onExportHistory = async (): Promise<void> => {
+    // 起止日期都包含在内：从起始日 0 点到结束日 24 点
+    const from = range?.[0]?.startOf('day').valueOf()
+    const to = range?.[1]?.endOf('day').valueOf()
+    try {
+      const file = await window.transfer.exportHistory(format, from, to === undefined ? to : to + 1)
+      if (file) messageApi.success(t('transfer.exported', { file }))
+    } catch (error) {
+      messageApi.error(ipcErrorMessage(error))
+    }
+  }
+
+  const onExportSettings = async (): Promise<void> => {
+    try {
+      const file = await window.transfer.exportSettings()
+      if (file) messageApi.success(t('transfer.exported', { file }))
+    } catch (error) {
+      messageApi.error(ipcErrorMessage(error))
+    }
+  }
+
+  const onImportSettings = async (): Promise<void> => {
+    try {
+      const settings = await window.transfer.importSettings()
+      if (settings) messageApi.success(t('transfer.imported'))
+    } catch (error) {
+      // 文件版本或结构不对时主进程会抛出具体原因
+      messageApi.error(ipcErrorMessage(error))
+    }
+  }
+
+  return (
+    <div className="h-full w-full overflow-y-auto px-6 py-4 bg-white">
+      {contextHolder}
+      <Divider orientation="left">{t('transfer.history')}</Divider>
+      <Space direction="vertical" className="w-full">
+        <DatePicker.RangePicker className="w-full" value={range} onChange={setRange} />
+        <Typography.Text type="secondary">{t('transfer.rangeTip')}</Typography.Text>
+        <Space>
+          <Radio.Group value={format} onChange={(e) => setFormat(e.target.value)}>
+            <Radio.Button value="csv">CSV</Radio.Button>
+            <Radio.Button value="json">JSON</Radio.Button>
+          </Radio.Group>
+          <Button type="primary" onClick={onExportHistory}>
+            {t('transfer.exportHistory')}
+          </Button>
+        </Space>
+      </Space>
+
+      <Divider orientation="left">{t('transfer.settings')}</Divider>
+      <Space>
+        <Button onClick={onExportSettings}>{t('transfer.exportSettings')}</Button>
+        <Button onClick={onImportSettings}>{t('transfer.importSettings')}</Button>
+      </Space>
+    </div>
+  )
+}
+
+export default Data
@@ -1,13 +1,21 @@
 import { useTranslation } from 'react-i18next'
-import { Button, Statistic } from 'antd'
+import { Alert, Button, Space, Statistic } from 'antd'
 import { SettingOutlined } from '@ant-design/icons'
 import { useEffect, useState } from 'react'
+import { formatSeconds } from '@renderer/common/time'
+import { playSound } from '@renderer/common/sound'
 
 const { Countdown } = Statistic
 
+// 推迟按钮对应的分钟数，与系统通知中的一致
+const SNOOZE_MINUTES = 5
+
 export default function Home(): JSX.Element {
   const { t, i18n } = useTranslation()
   const [time, setTime] = useState(0)
+  const [info, setInfo] = useState<PhaseInfo | null>(null)
+  const [settings, setSettings] = useState<Settings | null>(null)
+  const [offHours, setOffHours] = useState<OffHoursInfo | null>(null)
   const getIpc = () => {
     const fallbackIpc =
       typeof window !== 'undefined' &&
@@ -24,26 +32,91 @@ export default function Home(): JSX.Element {
   const ipcHandleCreateFull = (): void => getIpc()?.send('createFullscreen')
 
   useEffect(() => {
-    // 初始化倒计时显示
-    const initTimer = async (): Promise<void> => {
-      try {
-        if (window.timer && typeof window.timer.getRemainingTime === 'function') {
-          const remainingTime = await window.timer.getRemainingTime()
-          console.log(`Time updated: ${remainingTime}s`)
-          setTime(Date.now() + remainingTime * 1000)
-        } else {
-          console.warn('Timer API not available, using default time')
-          setTime(Date.now() + 25 * 60 * 1000) // 默认25分钟
-        }
-      } catch (error) {
-        console.error('Failed to get remaining time:', error)
-        setTime(Date.now() + 25 * 60 * 1000) // 默认25分钟
-      }
+    if (!window.timer) {
+      console.warn('Timer API not available')
+      return
+    }
+    // 以主进程推送的时间为准，避免本地倒计时与调度器不同步
+    const sync = (next: PhaseInfo): void => {
+      setInfo(next)
+      setTime(Date.now() + next.remainingTime * 1000)
+    }
+    const onUpdate = (_: number, next: PhaseInfo): void => sync(next)
+
+    window.timer
+      .getPhase()
+      .then(sync)
+      .catch((error) => console.error('Failed to get remaining time:', error))
+    window.timer.onUpdate(onUpdate)
+    window.timer.onStateChange(sync)
+    window.timer.onPhaseChange(sync)
+    window.timer.getOffHours().then(setOffHours)
+    window.timer.onOffHoursChange(setOffHours)
+    window.settings?.get().then(setSettings)
+    window.settings?.onChange(setSettings)
+    // 提示音只由首页窗口播放
+    window.sound?.onPlay(playSound)
+    return (): void => {
+      window.timer.removeUpdateListener(onUpdate)
+      window.timer.removeStateChangeListener(sync)
+      window.timer.removePhaseChangeListener(sync)
+      window.timer.removeOffHoursChangeListener(setOffHours)
+      window.settings?.removeChangeListener(setSettings)
+      window.sound?.removePlayListener(playSound)
     }
-    
-    initTimer()
   }, [])
 
+  const running = !info || info.state === 'running' || info.state === 'break'
+
+  // 非工作时间（按时间表或安静模式暂停）且计时未被手动恢复时提示
+  const untilText = offHours?.until
+    ? new Date(offHours.until).toLocaleString(i18n.language, {
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit'
+      })
+    : ''
+  const offHoursText =
+    offHours?.off && !running
+      ? offHours.reason === 'quiet'
+        ? t('home.quietUntil', { time: untilText })
+        : untilText
+          ? t('home.offHoursUntil', { time: untilText })
+          : t('home.offHours')
+      : ''
+
+  // 休息前提醒：剩余时间进入最早的提醒时间点后显示，与主进程的系统通知对应
+  const warningAt = settings?.breakWarnings.length ? Math.max(...settings.breakWarnings) : 0
+  const warning =
+    !!info &&
+    info.phase === 'work' &&
+    info.state === 'running' &&
+    !info.skipNext &&
+    info.remainingTime > 0 &&
+    info.remainingTime <= warningAt
+  const canPostpone =
+    !!settings?.allowPostpone &&
+    (settings.maxSnoozes === 0 || (info?.snoozes ?? 0) < settings.maxSnoozes)
+  // 本次（休息中）或下一次休息的时长，长短休息的判断与主进程 getNextBreak 一致
+  const interval = settings?.longBreakInterval ?? 0
+  const longBreakNext = interval > 0 && ((info?.cycle ?? 0) + 1) % interval === 0
+  const nextBreak =
+    info && info.phase !== 'work'
+      ? info.duration
+      : ((longBreakNext ? settings?.longBreakDuration : settings?.breakDuration) ?? 0)
+  const nextBreakText =
+    nextBreak >= 60 && nextBreak % 60 === 0
+      ? t('home.nextBreakMinutes', { count: nextBreak / 60 })
+      : t('home.nextBreakSeconds', { count: nextBreak })
+
+  const onTogglePause = (): void => {
+    if (running) {
+      window.timer.pause()
+    } else {
+      window.timer.resume()
+    }
+  }
+
   return (
     <div className="flex flex-col px-6 pt-6 pb-10 bg-gradient-to-t from-[#cbcbca] to-[#c0bfbe] h-full w-full rounded-lg  shadow-lg">
       <div className=" flex items-center justify-end">
@@ -72,16 +145,56 @@ export default function Home(): JSX.Element {
             </a>
           </div>
         </div>
-        <Countdown className=" pt-[20px]" value={time} format="mm:ss" />
+        {info && (info.state === 'paused' || info.state === 'idle') ? (
+          <Statistic className=" pt-[20px]" value={formatSeconds(info.remainingTime)} />
+        ) : (
+          <Countdown className=" pt-[20px]" value={time} format="mm:ss" />
+        )}
+        {warning && (
+          <Alert
+            className="mt-[10px] w-full"
+            type="warning"
+            message={t('warning.body', { count: info.remainingTime })}
+            description={
+              <Space size={4} wrap>
+                <Button size="small" type="primary" onClick={ipcHandleCreateFull}>
+                  {t('warning.breakNow')}
+                </Button>
+                {canPostpone && (
+                  <Button size="small" onClick={() => window.timer.postpone(SNOOZE_MINUTES * 60)}>
+                    {t('warning.postpone', { count: SNOOZE_MINUTES })}
+                  </Button>
+                )}
+                {settings?.allowSkip && (
+                  <Button size="small" onClick={() => window.timer.setSkipNextBreak(true)}>
+                    {t('warning.skip')}
+                  </Button>
+                )}
+              </Space>
+            }
+          />
+        )}
         <p className="pt-[10px]">
-          <span>工作结束，休息20秒</span>
+          {offHoursText ? (
+            <span>{offHoursText}</span>
+          ) : info?.phase === 'work' && info.state === 'running' && info.remainingTime <= 0 ? (
+            <span>
+              {info.deferredBy === 'calendar' ? t('home.deferredCalendar') : t('home.deferred')}
+            </span>
+          ) : (
+            settings && <span>{nextBreakText}</span>
+          )}
         </p>
         <div className=" flex items-center justify-center w-full pt-[40px]">
-          <Button className=" w-[36%]" type="default">
+          <Button className=" w-[28%]" type="default" onClick={() => window.timer.reset()}>
             重置
           </Button>
-          <div className=" w-[10%]"></div>
-          <Button className=" w-[36%]" type="primary" onClick={ipcHandleCreateFull}>
+          <div className=" w-[5%]"></div>
+          <Button className=" w-[28%]" type="default" onClick={onTogglePause}>
+            {running ? t('home.pause') : t('home.resume')}
+          </Button>
+          <div className=" w-[5%]"></div>
+          <Button className=" w-[28%]" type="primary" onClick={ipcHandleCreateFull}>
             休息
           </Button>
         </div>
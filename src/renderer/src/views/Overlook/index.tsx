@@ -1,19 +1,57 @@
-import { useCallback, useMemo } from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
 import { RightCircleOutlined } from '@ant-design/icons'
-import { useLayoutContext } from '@renderer/components/Layout/LayoutContext'
 import { Statistic } from 'antd'
 
 const BreakTime: React.FC = () => {
-  const { toggleFade } = useLayoutContext()
-  const time = useMemo(() => {
-    return Date.now() + 20 * 1000
+  const { t } = useTranslation()
+  // 休息倒计时由主进程调度器驱动，这里只负责展示
+  const [info, setInfo] = useState<PhaseInfo | null>(null)
+  const [time, setTime] = useState(0)
+  const [settings, setSettings] = useState<Settings | null>(null)
+  // 本次休息的活动由主进程选出，多块屏幕显示同一组
+  const [activities, setActivities] = useState<Activity[]>([])
+
+  useEffect(() => {
+    const sync = (next: PhaseInfo): void => {
+      setInfo(next)
+      setTime(Date.now() + next.remainingTime * 1000)
+    }
+    const onUpdate = (_: number, next: PhaseInfo): void => sync(next)
+
+    window.timer
+      .getPhase()
+      .then(sync)
+      .catch((error) => console.error('Failed to get phase:', error))
+    window.timer.onUpdate(onUpdate)
+    window.timer.onPhaseChange(sync)
+    window.settings.get().then(setSettings)
+    window.settings.onChange(setSettings)
+    window.activities.getCurrent().then(setActivities)
+    window.activities.onChange(setActivities)
+    return (): void => {
+      window.timer.removeUpdateListener(onUpdate)
+      window.timer.removePhaseChangeListener(sync)
+      window.settings.removeChangeListener(setSettings)
+      window.activities.removeChangeListener(setActivities)
+    }
   }, [])
 
-  const onFinish = useCallback(() => {
-    window.timer.reset()
-    toggleFade(false)
+  const onSkip = useCallback(() => {
+    window.timer.skipBreak('overlay')
   }, [])
 
+  // 严格模式下休息开始一段时间后才显示跳过按钮，与主进程 canSkipBreak 的判断一致
+  const canSkip =
+    settings?.allowSkip !== false &&
+    (settings?.enforcement !== 'strict' ||
+      (!!info && info.duration - info.remainingTime >= settings.strictSkipDelay))
+
+  // 长休息包含多项活动，按已过去的时间平均切换
+  const elapsed = info ? info.duration - info.remainingTime : 0
+  const per = info && activities.length ? info.duration / activities.length : 1
+  const activity = activities[Math.min(activities.length - 1, Math.floor(elapsed / per))]
+
   return (
     <div className="text-white pt-[15%] pb-[10%] w-screen h-screen flex items-center flex-col justify-center">
       <div className="  w-full h-full z-[2] flex flex-col items-center justify-center">
@@ -21,16 +59,47 @@ const BreakTime: React.FC = () => {
           format="mm:ss"
           valueStyle={{ fontSize: '40px', fontWeight: 'bold', color: 'white' }}
           value={time}
-          onFinish={onFinish}
         />
 
-        <p className="text-[64px] font-bold mt-4">请眺望远方</p>
+        <p className="text-[64px] font-bold mt-4">
+          {settings?.breakMessage ||
+            activity?.title ||
+            t(`breakScreen.${info?.phase === 'longBreak' ? 'longBreak' : 'shortBreak'}`)}
+        </p>
+        {info && (
+          <p className="text-[16px] opacity-70 mt-2">
+            {t('breakScreen.cycles', { count: info.cycle })}
+          </p>
+        )}
 
-        <div className="flex-1">loading...</div>
-        <RightCircleOutlined
-          onClick={onFinish}
-          className="transition-all text-[24px] opacity-70 hover:opacity-100 cursor-pointer"
-        />
+        <div className="flex-1 flex flex-col items-center justify-center">
+          {activity && (
+            <>
+              {activity.image && (
+                <img className="w-[120px] h-[120px] opacity-80 mb-6" src={activity.image} alt="" />
+              )}
+              {settings?.breakMessage && (
+                <p className="text-[28px] font-bold mb-3">{activity.title}</p>
+              )}
+              <ol className="text-[20px] leading-[2] opacity-90 list-decimal">
+                {activity.steps.map((step, index) => (
+                  <li key={index}>{step}</li>
+                ))}
+              </ol>
+              {activities.length > 1 && (
+                <p className="text-[14px] opacity-60 mt-4">
+                  {activities.indexOf(activity) + 1} / {activities.length}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+        {canSkip && (
+          <RightCircleOutlined
+            onClick={onSkip}
+            className="transition-all text-[24px] opacity-70 hover:opacity-100 cursor-pointer"
+          />
+        )}
       </div>
     </div>
   )
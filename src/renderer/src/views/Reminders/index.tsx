@@ -0,0 +1,278 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  Button,
+  Form,
+  Input,
+  InputNumber,
+  List,
+  Modal,
+  Radio,
+  Select,
+  Switch,
+  Typography,
+  message
+} from 'antd'
+import { DeleteOutlined, EditOutlined, NotificationOutlined } from '@ant-design/icons'
+import { ipcErrorMessage } from '@renderer/common/ipcError'
+
+// 编辑表单把三种规则的字段平铺，保存时再按类型组装
+interface FormValues {
+  name: string
+  message: string
+  style: ReminderStyle
+  type: ReminderRule['type']
+  minutes: number
+  time: string
+  days: number[]
+  cron: string
+}
+
+const DEFAULT_VALUES: FormValues = {
+  name: '',
+  message: '',
+  style: 'notification',
+  type: 'interval',
+  minutes: 45,
+  time: '15:00',
+  days: [1, 2, 3, 4, 5],
+  cron: '0 15 * * 1-5'
+}
+
+// 每 5 分钟一档的时刻
+const TIME_OPTIONS = Array.from({ length: 24 * 12 }, (_, i) => {
+  const time = `${String(Math.floor(i / 12)).padStart(2, '0')}:${String((i % 12) * 5).padStart(2, '0')}`
+  return { value: time, label: time }
+})
+
+const toForm = (reminder: Reminder): FormValues => ({
+  ...DEFAULT_VALUES,
+  name: reminder.name,
+  message: reminder.message,
+  style: reminder.style,
+  ...reminder.rule
+})
+
+const toRule = (values: FormValues): ReminderRule => {
+  switch (values.type) {
+    case 'interval':
+      return { type: 'interval', minutes: values.minutes }
+    case 'time':
+      return { type: 'time', time: values.time, days: values.days }
+    case 'cron':
+      return { type: 'cron', cron: values.cron.trim() }
+  }
+}
+
+const Reminders: React.FC = () => {
+  const { t, i18n } = useTranslation()
+  const [items, setItems] = useState<ReminderInfo[]>([])
+  // 正在编辑的提醒：null 为未打开编辑框，'' 为新增
+  const [editing, setEditing] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [form] = Form.useForm<FormValues>()
+  const type = Form.useWatch('type', form)
+  const [messageApi, contextHolder] = message.useMessage()
+
+  useEffect(() => {
+    window.reminders.list().then(setItems)
+  }, [])
+
+  const showError = (error: unknown): void => {
+    messageApi.error(ipcErrorMessage(error))
+  }
+
+  const onEdit = (reminder?: Reminder): void => {
+    form.setFieldsValue(reminder ? toForm(reminder) : DEFAULT_VALUES)
+    setEditing(reminder?.id ?? '')
+  }
+
+  const onSave = async (): Promise<void> => {
+    // 校验失败时表单已标出错误字段，Modal 不处理返回的 Promise，这里直接结束
+    const values = await form.validateFields().catch(() => null)
+    if (!values) return
+    const current = items.find((item) => item.id === editing)
+    setSaving(true)
+    try {
+      const list = await window.reminders.save({
+        id: editing || undefined,
+        name: values.name.trim(),
+        message: values.message?.trim() ?? '',
+        style: values.style,
+        rule: toRule(values),
+        enabled: current?.enabled ?? true
+      })
+      setItems(list)
+      setEditing(null)
+      // 新增的提醒排在最后
+      const saved = editing ? list.find((item) => item.id === editing) : list[list.length - 1]
+      if (saved?.invalid) {
+        messageApi.warning(t('reminders.invalidRule'))
+      }
+    } catch (error) {
+      showError(error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const onToggle = async (reminder: ReminderInfo, enabled: boolean): Promise<void> => {
+    const { id, name, rule, style } = reminder
+    try {
+      setItems(
+        await window.reminders.save({ id, name, message: reminder.message, rule, style, enabled })
+      )
+    } catch (error) {
+      showError(error)
+    }
+  }
+
+  const describe = (rule: ReminderRule): string => {
+    switch (rule.type) {
+      case 'interval':
+        return t('reminders.everyMinutes', { count: rule.minutes })
+      case 'time':
+        return t('reminders.atTime', {
+          time: rule.time,
+          days:
+            rule.days.length === 7
+              ? t('reminders.everyDay')
+              : [1, 2, 3, 4, 5, 6, 0]
+                  .filter((day) => rule.days.includes(day))
+                  .map((day) => t(`settingsForm.weekdays.${day}`))
+                  .join(' ')
+        })
+      case 'cron':
+        return `cron: ${rule.cron}`
+    }
+  }
+
+  const describeNext = (item: ReminderInfo): string => {
+    if (!item.enabled) return t('reminders.disabled')
+    if (item.invalid || !item.next) return t('reminders.invalidRule')
+    return t('reminders.next', {
+      time: new Date(item.next).toLocaleString(i18n.language, {
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit'
+      })
+    })
+  }
+
+  return (
+    <div className="flex flex-col h-full w-full px-6 py-4 bg-white">
+      {contextHolder}
+      <Typography.Paragraph type="secondary">{t('reminders.description')}</Typography.Paragraph>
+      <List
+        className="flex-1 overflow-y-auto"
+        size="small"
+        bordered
+        dataSource={items}
+        locale={{ emptyText: t('reminders.empty') }}
+        renderItem={(item) => (
+          <List.Item
+            actions={[
+              <Switch
+                key="enabled"
+                size="small"
+                checked={item.enabled}
+                onChange={(checked) => onToggle(item, checked)}
+              />,
+              <NotificationOutlined
+                key="test"
+                className="cursor-pointer"
+                title={t('reminders.test')}
+                onClick={() => window.reminders.test(item.id)}
+              />,
+              <EditOutlined key="edit" className="cursor-pointer" onClick={() => onEdit(item)} />,
+              <DeleteOutlined
+                key="delete"
+                className="cursor-pointer"
+                onClick={() => window.reminders.remove(item.id).then(setItems)}
+              />
+            ]}
+          >
+            <List.Item.Meta
+              title={item.name}
+              description={`${describe(item.rule)} · ${describeNext(item)}`}
+            />
+          </List.Item>
+        )}
+      />
+      <div className="flex justify-end mt-4">
+        <Button type="primary" onClick={() => onEdit()} disabled={items.length >= 30}>
+          {t('reminders.add')}
+        </Button>
+      </div>
+
+      <Modal
+        open={editing !== null}
+        title={editing ? t('reminders.edit') : t('reminders.add')}
+        okText={t('settingsForm.save')}
+        confirmLoading={saving}
+        onOk={onSave}
+        onCancel={() => setEditing(null)}
+        forceRender
+      >
+        <Form form={form} layout="vertical" initialValues={DEFAULT_VALUES}>
+          <Form.Item name="name" label={t('reminders.name')} rules={[{ required: true }]}>
+            <Input maxLength={50} placeholder={t('reminders.namePlaceholder')} />
+          </Form.Item>
+          <Form.Item name="message" label={t('reminders.message')}>
+            <Input maxLength={200} placeholder={t('reminders.defaultMessage')} />
+          </Form.Item>
+          <Form.Item name="type" label={t('reminders.rule')}>
+            <Radio.Group>
+              {(['interval', 'time', 'cron'] as const).map((value) => (
+                <Radio.Button key={value} value={value}>
+                  {t(`reminders.types.${value}`)}
+                </Radio.Button>
+              ))}
+            </Radio.Group>
+          </Form.Item>
+          {type === 'interval' && (
+            <Form.Item name="minutes" rules={[{ required: true }]}>
+              <InputNumber
+                min={1}
+                max={24 * 60}
+                precision={0}
+                addonAfter={t('settingsForm.minutes')}
+              />
+            </Form.Item>
+          )}
+          {type === 'time' && (
+            <>
+              <Form.Item name="time" rules={[{ required: true }]}>
+                <Select showSearch options={TIME_OPTIONS} />
+              </Form.Item>
+              <Form.Item name="days" rules={[{ required: true }]}>
+                <Select
+                  mode="multiple"
+                  options={[1, 2, 3, 4, 5, 6, 0].map((value) => ({
+                    value,
+                    label: t(`settingsForm.weekdays.${value}`)
+                  }))}
+                />
+              </Form.Item>
+            </>
+          )}
+          {type === 'cron' && (
+            <Form.Item name="cron" extra={t('reminders.cronTip')} rules={[{ required: true }]}>
+              <Input maxLength={100} placeholder="0 15 * * 1-5" />
+            </Form.Item>
+          )}
+          <Form.Item name="style" label={t('reminders.style')}>
+            <Select
+              options={['notification', 'silent', 'dialog'].map((value) => ({
+                value,
+                label: t(`reminders.styles.${value}`)
+              }))}
+            />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  )
+}
+
+export default Reminders
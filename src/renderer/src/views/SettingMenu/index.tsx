@@ -1,29 +1,58 @@
+import { useTranslation } from 'react-i18next'
+
+type MenuAction =
+  | 'about'
+  | 'update'
+  | 'settings'
+  | 'whitelist'
+  | 'calendar'
+  | 'reminders'
+  | 'activities'
+  | 'stats'
+  | 'data'
+  | 'feedback'
+  | 'rate'
+  | 'quit'
+
+const isMac = window.electron?.process?.platform === 'darwin'
+
 const SettingMenu: React.FC = () => {
-  const menuItems = [
-    { label: '关于一咻', shortcut: null },
-    { label: '设置...', shortcut: '⌘ ,' },
-    { label: '应用白名单', shortcut: null },
-    { label: '休息统计', shortcut: null },
-    { label: '反馈', shortcut: null },
-    { label: '为应用评分', shortcut: null },
-    { label: '退出', shortcut: '⌘ Q' }
+  const { t } = useTranslation()
+  const menuItems: { action: MenuAction; shortcut: string | null }[] = [
+    { action: 'about', shortcut: null },
+    { action: 'update', shortcut: null },
+    { action: 'settings', shortcut: isMac ? '⌘ ,' : 'Ctrl+,' },
+    { action: 'whitelist', shortcut: null },
+    { action: 'calendar', shortcut: null },
+    { action: 'reminders', shortcut: null },
+    { action: 'activities', shortcut: null },
+    { action: 'stats', shortcut: null },
+    { action: 'data', shortcut: null },
+    { action: 'feedback', shortcut: null },
+    { action: 'rate', shortcut: null },
+    { action: 'quit', shortcut: isMac ? '⌘ Q' : 'Ctrl+Q' }
   ]
 
+  const onClick = (action: MenuAction): void => {
+    window.electron?.ipcRenderer.send('setting-menu-action', action)
+  }
+
   return (
     <div className=" text-[14px] justify-center h-full flex flex-col p-[6px]  bg-gradient-to-t from-[#cbcbca] to-[#c0bfbe]">
       {menuItems.map((item, index) => (
-        <div key={index}>
+        <div key={item.action}>
           <div
-            className={`flex items-center text-[#2a2929] justify-between group px-[4px] rounded-sm  hover:bg-[#326ccf] hover:text-white`}
+            onClick={() => onClick(item.action)}
+            className={`flex items-center text-[#2a2929] justify-between group px-[4px] rounded-sm cursor-default hover:bg-[#326ccf] hover:text-white`}
           >
             <div className="flex items-center">
-              <span>{item.label}</span>
+              <span>{t(`settingMenu.${item.action}`)}</span>
             </div>
             {item.shortcut && (
               <span className={`text-gray-500 group-hover:text-white`}>{item.shortcut}</span>
             )}
           </div>
-          {index === 0 || index === 1 || index === 5 ? (
+          {index === 1 || index === 2 || index === 10 ? (
             <div className="h-[1px] bg-gray-400 my-1" />
           ) : null}
         </div>
@@ -0,0 +1,442 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { MinusCircleOutlined, PlusOutlined } from '@ant-design/icons'
+import {
+  Alert,
+  Button,
+  Divider,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  Slider,
+  Space,
+  Switch,
+  Typography,
+  message
+} from 'antd'
+import { ipcErrorMessage } from '@renderer/common/ipcError'
+
+// 表单中以分钟展示的字段，保存时换算回秒
+const MINUTE_FIELDS = ['workDuration', 'longBreakDuration', 'idleThreshold', 'idleResetThreshold']
+
+type FormValues = Record<string, unknown>
+
+const SOUND_CUES: SoundCue[] = ['breakStart', 'breakEnd', 'warning']
+
+// 工作时间可选的时刻，每半小时一档，结束时间可选 24:00
+const TIME_OPTIONS = Array.from({ length: 49 }, (_, i) => {
+  const time = `${String(Math.floor(i / 2)).padStart(2, '0')}:${i % 2 ? '30' : '00'}`
+  return { value: time, label: time }
+})
+
+const NEW_PERIOD: SchedulePeriod = { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' }
+
+// 提示音文件选择：显示文件名，可选择文件、恢复内置声音和试听
+interface SoundPickerProps {
+  cue: SoundCue
+  value?: string
+  onChange?: (value: string) => void
+}
+
+function SoundPicker({ cue, value = '', onChange }: SoundPickerProps): JSX.Element {
+  const { t } = useTranslation()
+  const onChoose = async (): Promise<void> => {
+    const file = await window.sound.chooseFile()
+    if (file) onChange?.(file)
+  }
+  return (
+    <Space.Compact className="w-full">
+      <Input
+        readOnly
+        value={value ? value.split(/[\\/]/).pop() : t('settingsForm.defaultSound')}
+        title={value}
+      />
+      <Button onClick={onChoose}>{t('settingsForm.chooseSound')}</Button>
+      {value && <Button onClick={() => onChange?.('')}>{t('settingsForm.resetSound')}</Button>}
+      <Button onClick={() => window.sound.preview(cue, value)}>
+        {t('settingsForm.previewSound')}
+      </Button>
+    </Space.Compact>
+  )
+}
+
+// 本机控制接口的令牌与运行状态；令牌由主进程生成，不在表单中编辑
+function ApiInfo(): JSX.Element {
+  const { t } = useTranslation()
+  const [token, setToken] = useState('')
+  const [status, setStatus] = useState<ApiStatus | null>(null)
+
+  useEffect(() => {
+    // 开关、端口修改后服务会重启，稍后再读取状态
+    const refresh = (settings: Settings): void => {
+      setToken(settings.apiToken)
+      setTimeout(() => window.settings.getApiStatus().then(setStatus), 500)
+    }
+    window.settings.get().then(refresh)
+    window.settings.onChange(refresh)
+    return (): void => {
+      window.settings.removeChangeListener(refresh)
+    }
+  }, [])
+
+  if (!token) return <></>
+  return (
+    <Space direction="vertical" className="w-full">
+      {status?.error && (
+        <Alert
+          type="error"
+          showIcon
+          message={t('settingsForm.apiError', { error: status.error })}
+        />
+      )}
+      <Space.Compact className="w-full">
+        <Input.Password readOnly value={token} />
+        <Button onClick={() => navigator.clipboard.writeText(token)}>
+          {t('settingsForm.copy')}
+        </Button>
+        <Button onClick={() => window.settings.regenerateApiToken()}>
+          {t('settingsForm.regenerateToken')}
+        </Button>
+      </Space.Compact>
+      {status?.running && (
+        <Typography.Text type="secondary" className="text-xs">
+          {t('settingsForm.apiExample', { port: status.port })}
+        </Typography.Text>
+      )}
+    </Space>
+  )
+}
+
+const toForm = (settings: Settings): FormValues => {
+  const values: FormValues = { ...settings }
+  MINUTE_FIELDS.forEach((key) => {
+    values[key] = Math.round((settings[key] as number) / 60)
+  })
+  return values
+}
+
+const toPatch = (values: FormValues): SettingsPatch => {
+  const patch: FormValues = { ...values }
+  MINUTE_FIELDS.forEach((key) => {
+    if (typeof patch[key] === 'number') patch[key] = (patch[key] as number) * 60
+  })
+  return patch as SettingsPatch
+}
+
+const Settings: React.FC = () => {
+  const { t } = useTranslation()
+  const [form] = Form.useForm()
+  const [saving, setSaving] = useState(false)
+  const [messageApi, contextHolder] = message.useMessage()
+
+  useEffect(() => {
+    window.settings
+      .get()
+      .then((settings) => form.setFieldsValue(toForm(settings)))
+      .catch((error) => console.error('Failed to get settings:', error))
+  }, [])
+
+  const onFinish = async (values: FormValues): Promise<void> => {
+    setSaving(true)
+    try {
+      const settings = await window.settings.set(toPatch(values))
+      form.setFieldsValue(toForm(settings))
+      messageApi.success(t('settingsForm.saved'))
+    } catch (error) {
+      // 主进程校验失败时 invoke 会 reject，错误信息中带有具体字段
+      messageApi.error(ipcErrorMessage(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const minutes = <span>{t('settingsForm.minutes')}</span>
+  const seconds = <span>{t('settingsForm.seconds')}</span>
+
+  return (
+    <div className="h-full w-full overflow-y-auto px-6 py-4 bg-white">
+      {contextHolder}
+      <Form form={form} labelCol={{ span: 9 }} wrapperCol={{ span: 15 }} onFinish={onFinish}>
+        <Divider orientation="left">{t('settingsForm.sections.timer')}</Divider>
+        <Form.Item
+          name="workDuration"
+          label={t('settingsForm.fields.workDuration')}
+          rules={[{ required: true }]}
+        >
+          <InputNumber min={1} max={240} precision={0} addonAfter={minutes} />
+        </Form.Item>
+        <Form.Item
+          name="breakDuration"
+          label={t('settingsForm.fields.breakDuration')}
+          rules={[{ required: true }]}
+        >
+          <InputNumber min={5} max={3600} precision={0} addonAfter={seconds} />
+        </Form.Item>
+        <Form.Item
+          name="longBreakDuration"
+          label={t('settingsForm.fields.longBreakDuration')}
+          rules={[{ required: true }]}
+        >
+          <InputNumber min={1} max={120} precision={0} addonAfter={minutes} />
+        </Form.Item>
+        <Form.Item
+          name="longBreakInterval"
+          label={t('settingsForm.fields.longBreakInterval')}
+          tooltip={t('settingsForm.longBreakIntervalTip')}
+          rules={[{ required: true }]}
+        >
+          <InputNumber min={0} max={12} precision={0} addonAfter={t('settingsForm.rounds')} />
+        </Form.Item>
+
+        <Divider orientation="left">{t('settingsForm.sections.break')}</Divider>
+        <Form.Item name="breakMessage" label={t('settingsForm.fields.breakMessage')}>
+          <Input
+            maxLength={100}
+            placeholder={t('settingsForm.breakMessagePlaceholder')}
+            allowClear
+          />
+        </Form.Item>
+        <Form.Item
+          name="allowSkip"
+          label={t('settingsForm.fields.allowSkip')}
+          valuePropName="checked"
+        >
+          <Switch />
+        </Form.Item>
+        <Form.Item
+          name="allowPostpone"
+          label={t('settingsForm.fields.allowPostpone')}
+          valuePropName="checked"
+        >
+          <Switch />
+        </Form.Item>
+        <Form.Item name="enforcement" label={t('settingsForm.fields.enforcement')}>
+          <Select
+            options={['gentle', 'normal', 'strict'].map((value) => ({
+              value,
+              label: t(`settingsForm.enforcements.${value}`)
+            }))}
+          />
+        </Form.Item>
+        <Form.Item
+          name="strictSkipDelay"
+          label={t('settingsForm.fields.strictSkipDelay')}
+          tooltip={t('settingsForm.strictSkipDelayTip')}
+          rules={[{ required: true }]}
+        >
+          <InputNumber min={0} max={3600} precision={0} addonAfter={seconds} />
+        </Form.Item>
+
+        <Form.Item
+          name="breakWarnings"
+          label={t('settingsForm.fields.breakWarnings')}
+          tooltip={t('settingsForm.breakWarningsTip')}
+        >
+          <Select
+            mode="multiple"
+            allowClear
+            options={[10, 30, 60, 120, 300].map((value) => ({
+              value,
+              label: t('settingsForm.secondsBefore', { count: value })
+            }))}
+          />
+        </Form.Item>
+        <Form.Item
+          name="maxSnoozes"
+          label={t('settingsForm.fields.maxSnoozes')}
+          tooltip={t('settingsForm.maxSnoozesTip')}
+          rules={[{ required: true }]}
+        >
+          <InputNumber min={0} max={10} precision={0} addonAfter={t('settingsForm.times')} />
+        </Form.Item>
+
+        <Divider orientation="left">{t('settingsForm.sections.away')}</Divider>
+        <Form.Item name="sleepPolicy" label={t('settingsForm.fields.sleepPolicy')}>
+          <Select
+            options={['pause', 'break', 'continue'].map((value) => ({
+              value,
+              label: t(`settingsForm.sleepPolicies.${value}`)
+            }))}
+          />
+        </Form.Item>
+        <Form.Item
+          name="idleThreshold"
+          label={t('settingsForm.fields.idleThreshold')}
+          tooltip={t('settingsForm.idleThresholdTip')}
+          rules={[{ required: true }]}
+        >
+          <InputNumber min={0} max={60} precision={0} addonAfter={minutes} />
+        </Form.Item>
+        <Form.Item
+          name="idleResetThreshold"
+          label={t('settingsForm.fields.idleResetThreshold')}
+          rules={[{ required: true }]}
+        >
+          <InputNumber min={1} max={1440} precision={0} addonAfter={minutes} />
+        </Form.Item>
+
+        <Divider orientation="left">{t('settingsForm.sections.schedule')}</Divider>
+        <Form.Item
+          name="scheduleEnabled"
+          label={t('settingsForm.fields.scheduleEnabled')}
+          tooltip={t('settingsForm.scheduleEnabledTip')}
+          valuePropName="checked"
+        >
+          <Switch />
+        </Form.Item>
+        <Form.Item label={t('settingsForm.fields.schedulePeriods')}>
+          <Form.List name="schedulePeriods">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((field) => (
+                  <Space key={field.key} align="baseline" wrap>
+                    <Form.Item name={[field.name, 'days']} rules={[{ required: true }]}>
+                      <Select
+                        mode="multiple"
+                        style={{ minWidth: 160 }}
+                        options={[1, 2, 3, 4, 5, 6, 0].map((value) => ({
+                          value,
+                          label: t(`settingsForm.weekdays.${value}`)
+                        }))}
+                      />
+                    </Form.Item>
+                    <Form.Item name={[field.name, 'start']}>
+                      <Select options={TIME_OPTIONS.slice(0, -1)} />
+                    </Form.Item>
+                    <span>-</span>
+                    <Form.Item name={[field.name, 'end']}>
+                      <Select options={TIME_OPTIONS.slice(1)} />
+                    </Form.Item>
+                    <MinusCircleOutlined onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Button
+                  type="dashed"
+                  onClick={() => add({ ...NEW_PERIOD })}
+                  disabled={fields.length >= 14}
+                  icon={<PlusOutlined />}
+                >
+                  {t('settingsForm.addPeriod')}
+                </Button>
+              </>
+            )}
+          </Form.List>
+        </Form.Item>
+
+        <Divider orientation="left">{t('settingsForm.sections.general')}</Divider>
+        <Form.Item name="language" label={t('settingsForm.fields.language')}>
+          <Select
+            options={[
+              { value: '', label: t('settingsForm.followSystem') },
+              { value: 'zh', label: '中文' },
+              { value: 'en', label: 'English' },
+              { value: 'ja', label: '日本語' },
+              { value: 'ko', label: '한국어' }
+            ]}
+          />
+        </Form.Item>
+        <Form.Item
+          name="launchAtLogin"
+          label={t('settingsForm.fields.launchAtLogin')}
+          valuePropName="checked"
+        >
+          <Switch />
+        </Form.Item>
+        <Form.Item
+          name="startHidden"
+          label={t('settingsForm.fields.startHidden')}
+          valuePropName="checked"
+        >
+          <Switch />
+        </Form.Item>
+
+        <Divider orientation="left">{t('settingsForm.sections.sound')}</Divider>
+        <Form.Item
+          name="soundEnabled"
+          label={t('settingsForm.fields.soundEnabled')}
+          valuePropName="checked"
+        >
+          <Switch />
+        </Form.Item>
+        <Form.Item name="soundVolume" label={t('settingsForm.fields.soundVolume')}>
+          <Slider min={0} max={100} />
+        </Form.Item>
+        {SOUND_CUES.map((cue) => (
+          <Form.Item key={cue} name={['sounds', cue]} label={t(`settingsForm.sounds.${cue}`)}>
+            <SoundPicker cue={cue} />
+          </Form.Item>
+        ))}
+        <Form.Item
+          name="respectDoNotDisturb"
+          label={t('settingsForm.fields.respectDoNotDisturb')}
+          tooltip={t('settingsForm.respectDoNotDisturbTip')}
+          valuePropName="checked"
+        >
+          <Switch />
+        </Form.Item>
+
+        <Divider orientation="left">{t('settingsForm.sections.api')}</Divider>
+        <Form.Item
+          name="apiEnabled"
+          label={t('settingsForm.fields.apiEnabled')}
+          tooltip={t('settingsForm.apiEnabledTip')}
+          valuePropName="checked"
+        >
+          <Switch />
+        </Form.Item>
+        <Form.Item
+          name="apiPort"
+          label={t('settingsForm.fields.apiPort')}
+          rules={[{ required: true }]}
+        >
+          <InputNumber min={1024} max={65535} precision={0} />
+        </Form.Item>
+        <Form.Item label={t('settingsForm.fields.apiToken')}>
+          <ApiInfo />
+        </Form.Item>
+
+        <Divider orientation="left">{t('settingsForm.sections.update')}</Divider>
+        <Form.Item
+          name="updateAutoCheck"
+          label={t('settingsForm.fields.updateAutoCheck')}
+          valuePropName="checked"
+        >
+          <Switch />
+        </Form.Item>
+        <Form.Item name="updateChannel" label={t('settingsForm.fields.updateChannel')}>
+          <Select
+            options={['stable', 'beta'].map((value) => ({
+              value,
+              label: t(`settingsForm.updateChannels.${value}`)
+            }))}
+          />
+        </Form.Item>
+        <Form.Item
+          name="updateServer"
+          label={t('settingsForm.fields.updateServer')}
+          tooltip={t('settingsForm.updateServerTip')}
+          rules={[
+            {
+              // 与主进程校验一致：开发环境允许任意地址，否则只允许本机地址
+              pattern: import.meta.env.DEV
+                ? /^https?:\/\/\S+$/
+                : /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?(\/\S*)?$/i,
+              message: t('settingsForm.updateServerTip')
+            }
+          ]}
+        >
+          <Input allowClear placeholder="https://example.com/auto-updates" />
+        </Form.Item>
+
+        <Form.Item wrapperCol={{ offset: 9, span: 15 }}>
+          <Button type="primary" htmlType="submit" loading={saving}>
+            {t('settingsForm.save')}
+          </Button>
+        </Form.Item>
+      </Form>
+    </div>
+  )
+}
+
+export default Settings
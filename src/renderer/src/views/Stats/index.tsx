@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Card, Col, Divider, Empty, Progress, Row, Statistic, Table } from 'antd'
+
+const toMinutes = (seconds: number): number => Math.round(seconds / 60)
+
+const Stats: React.FC = () => {
+  const { t } = useTranslation()
+  const [stats, setStats] = useState<Stats | null>(null)
+
+  useEffect(() => {
+    const load = (): void => {
+      window.stats
+        .get()
+        .then(setStats)
+        .catch((error) => console.error('Failed to get stats:', error))
+    }
+    load()
+    // 每段工作/休息结束都会切换阶段并写入记录，届时刷新
+    window.timer.onPhaseChange(load)
+    return (): void => {
+      window.timer.removePhaseChangeListener(load)
+    }
+  }, [])
+
+  if (!stats) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Empty />
+      </div>
+    )
+  }
+
+  const { today, week, days } = stats
+  // 柱状条以最近 7 天中最长的工作时长为满格
+  const maxWork = Math.max(1, ...days.map((day) => day.work))
+  const minutes = t('settingsForm.minutes')
+
+  return (
+    <div className="h-full w-full overflow-y-auto px-6 py-4 bg-white">
+      <Divider orientation="left">{t('stats.today')}</Divider>
+      <Row gutter={16}>
+        <Col span={8}>
+          <Statistic title={t('stats.work')} value={toMinutes(today.work)} suffix={minutes} />
+        </Col>
+        <Col span={8}>
+          <Statistic title={t('stats.breaks')} value={today.breaks.completed} />
+        </Col>
+        <Col span={8}>
+          <Statistic
+            title={t('stats.skipped')}
+            value={today.breaks.skipped + today.breaks.dismissed}
+          />
+        </Col>
+      </Row>
+
+      <Divider orientation="left">{t('stats.week')}</Divider>
+      <Row gutter={16}>
+        <Col span={6}>
+          <Statistic title={t('stats.work')} value={toMinutes(week.work)} suffix={minutes} />
+        </Col>
+        <Col span={6}>
+          <Statistic
+            title={t('stats.compliance')}
+            value={stats.compliance === null ? '-' : Math.round(stats.compliance * 100)}
+            suffix={stats.compliance === null ? undefined : '%'}
+          />
+        </Col>
+        <Col span={6}>
+          <Statistic title={t('stats.streak')} value={stats.streak} suffix={t('stats.days')} />
+        </Col>
+        <Col span={6}>
+          <Statistic
+            title={t('stats.bestStreak')}
+            value={stats.bestStreak}
+            suffix={t('stats.days')}
+          />
+        </Col>
+      </Row>
+
+      <Card size="small" className="mt-4">
+        <Table<DailyStats>
+          size="small"
+          rowKey="date"
+          pagination={false}
+          dataSource={[...days].reverse()}
+          columns={[
+            { title: t('stats.date'), dataIndex: 'date', width: 100 },
+            {
+              title: t('stats.work'),
+              dataIndex: 'work',
+              render: (work: number) => (
+                <Progress
+                  percent={(work / maxWork) * 100}
+                  format={() => `${toMinutes(work)} ${minutes}`}
+                  size="small"
+                />
+              )
+            },
+            {
+              title: t('stats.breaks'),
+              key: 'breaks',
+              width: 90,
+              render: (_, day) =>
+                `${day.breaks.completed} / ${day.breaks.completed + day.breaks.skipped + day.breaks.dismissed}`
+            }
+          ]}
+        />
+      </Card>
+    </div>
+  )
+}
+
+export default Stats
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Alert, Button, Progress, Typography } from 'antd'
+
+const Update: React.FC = () => {
+  const { t } = useTranslation()
+  const [status, setStatus] = useState<UpdateStatus | null>(null)
+
+  useEffect(() => {
+    // 打开窗口即检查一次，已在下载时直接返回当前进度
+    window.updater.check().then(setStatus)
+    window.updater.onStatus(setStatus)
+    return (): void => {
+      window.updater.removeStatusListener(setStatus)
+    }
+  }, [])
+
+  if (!status) return <></>
+  const busy = status.state === 'checking' || status.state === 'downloading'
+
+  return (
+    <div className="flex flex-col justify-center h-full w-full px-6 py-4 bg-white">
+      <Typography.Text type="secondary">
+        {t('update.currentVersion', { version: status.currentVersion })}
+      </Typography.Text>
+      <Typography.Paragraph className="!mt-2">
+        {t(`update.states.${status.state}`, { version: status.version })}
+      </Typography.Paragraph>
+      {status.state === 'downloading' && <Progress percent={status.percent} size="small" />}
+      {status.state === 'error' && status.error && (
+        <Alert type="error" showIcon message={status.error} />
+      )}
+      <div className="flex justify-end gap-2 mt-4">
+        {status.state === 'downloaded' ? (
+          <Button type="primary" onClick={() => window.updater.install()}>
+            {t('update.restart')}
+          </Button>
+        ) : (
+          <Button
+            type="primary"
+            loading={busy}
+            onClick={() => window.updater.check().then(setStatus)}
+          >
+            {t('update.check')}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default Update
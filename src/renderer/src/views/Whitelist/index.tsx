@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Button, Input, InputNumber, List, Space, Typography, message } from 'antd'
+import { DeleteOutlined } from '@ant-design/icons'
+import { ipcErrorMessage } from '@renderer/common/ipcError'
+
+const Whitelist: React.FC = () => {
+  const { t } = useTranslation()
+  const [items, setItems] = useState<string[]>([])
+  const [maxDeferral, setMaxDeferral] = useState(30)
+  const [input, setInput] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [messageApi, contextHolder] = message.useMessage()
+
+  useEffect(() => {
+    window.settings
+      .get()
+      .then((settings) => {
+        setItems(settings.whitelist)
+        setMaxDeferral(Math.round(settings.whitelistMaxDeferral / 60))
+      })
+      .catch((error) => console.error('Failed to get settings:', error))
+  }, [])
+
+  const onAdd = (): void => {
+    const value = input.trim()
+    if (!value) return
+    if (!items.some((item) => item.toLowerCase() === value.toLowerCase())) {
+      setItems([...items, value])
+    }
+    setInput('')
+  }
+
+  const onSave = async (): Promise<void> => {
+    setSaving(true)
+    try {
+      await window.settings.set({ whitelist: items, whitelistMaxDeferral: maxDeferral * 60 })
+      messageApi.success(t('settingsForm.saved'))
+    } catch (error) {
+      messageApi.error(ipcErrorMessage(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full w-full px-6 py-4 bg-white">
+      {contextHolder}
+      <Typography.Paragraph type="secondary">{t('whitelist.description')}</Typography.Paragraph>
+      <Space.Compact className="w-full">
+        <Input
+          value={input}
+          maxLength={100}
+          placeholder={t('whitelist.placeholder')}
+          onChange={(e) => setInput(e.target.value)}
+          onPressEnter={onAdd}
+        />
+        <Button onClick={onAdd}>{t('whitelist.add')}</Button>
+      </Space.Compact>
+      <List
+        className="flex-1 overflow-y-auto mt-3"
+        size="small"
+        bordered
+        dataSource={items}
+        locale={{ emptyText: t('whitelist.empty') }}
+        renderItem={(item) => (
+          <List.Item
+            actions={[
+              <DeleteOutlined
+                key="delete"
+                className="cursor-pointer"
+                onClick={() => setItems(items.filter((i) => i !== item))}
+              />
+            ]}
+          >
+            {item}
+          </List.Item>
+        )}
+      />
+      <div className="flex items-center justify-between mt-4">
+        <Space>
+          <span>{t('settingsForm.fields.whitelistMaxDeferral')}</span>
+          <InputNumber
+            min={1}
+            max={240}
+            precision={0}
+            value={maxDeferral}
+            onChange={(value) => setMaxDeferral(value ?? 1)}
+            addonAfter={t('settingsForm.minutes')}
+          />
+        </Space>
+        <Button type="primary" loading={saving} onClick={onSave}>
+          {t('settingsForm.save')}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default Whitelist